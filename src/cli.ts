@@ -6,7 +6,14 @@ import { readFile, mkdir, writeFile } from 'node:fs/promises';
 import { resolve, join } from 'node:path';
 import { fetchFigmaFile, fetchImageFills } from './figma/api.js';
 import { parseFigmaFile } from './figma/parser.js';
-import { generateFromDocument } from './codegen/generator.js';
+import {
+  generateFromDocument,
+  generateDesignTokens,
+  generateBlendHelper,
+  generateBlurHelper,
+  generateSquircleHelper,
+  generateClipHelper,
+} from './codegen/generator.js';
 import { downloadImages, type DownloadedImage } from './figma/image-downloader.js';
 import type { FigmaFileResponse } from './figma/types.js';
 
@@ -21,6 +28,7 @@ program
   .option('--node-ids <ids>', 'Comma-separated list of node IDs to export')
   .option('--json <path>', 'Path to a local Figma JSON export (instead of API)')
   .option('--output <dir>', 'Output directory for generated C++ files', './generated')
+  .option('--blend-modes', 'Composite layer blend modes (SCREEN, OVERLAY, ...) offscreen')
   .action(async (opts) => {
     try {
       await run(opts);
@@ -39,6 +47,7 @@ interface CliOptions {
   nodeIds?: string;
   json?: string;
   output: string;
+  blendModes?: boolean;
 }
 
 async function run(opts: CliOptions): Promise<void> {
@@ -92,7 +101,8 @@ async function run(opts: CliOptions): Promise<void> {
   }
 
   // Generate C++ code with downloaded image paths
-  const components = generateFromDocument(irDocument, downloadedImages);
+  const options = { blendModes: opts.blendModes };
+  const components = generateFromDocument(irDocument, downloadedImages, options);
   if (components.length === 0) {
     console.log('No components generated. Check that the Figma file contains top-level frames.');
     return;
@@ -112,6 +122,27 @@ async function run(opts: CliOptions): Promise<void> {
     console.log(`  ${comp.className}: ${comp.header.fileName}, ${comp.implementation.fileName}`);
   }
 
+  // Shared colours and fonts from Figma styles
+  const tokens = generateDesignTokens(irDocument);
+  if (tokens) {
+    await writeFile(join(outputDir, tokens.fileName), tokens.content, 'utf-8');
+    console.log(`  ${tokens.fileName}`);
+  }
+
+  // Blend mode compositing, blur, smoothed corner and child clipping helpers
+  const helpers = [
+    generateBlendHelper(irDocument, options),
+    generateBlurHelper(irDocument),
+    generateSquircleHelper(irDocument),
+    generateClipHelper(irDocument),
+  ];
+  for (const helper of helpers) {
+    if (helper) {
+      await writeFile(join(outputDir, helper.fileName), helper.content, 'utf-8');
+      console.log(`  ${helper.fileName}`);
+    }
+  }
+
   // Generate CMakeLists.txt snippet for BinaryData if images were downloaded
   if (downloadedImages.length > 0) {
     const binaryDataLines = [
@@ -0,0 +1,251 @@
+// Figma blend modes: JUCE has none, so blended nodes are drawn into an
+// offscreen image and composited against their backdrop by FigmaBlend.h.
+
+import type { IRNode } from '../ir/types.js';
+import { hasIRChildren } from '../ir/types.js';
+import { toMemberNames } from '../utils/naming.js';
+
+export const BLEND_HELPER_FILE_NAME = 'FigmaBlend.h';
+
+const BLEND_MODES: Record<string, string> = {
+  DARKEN: 'darken',
+  MULTIPLY: 'multiply',
+  LINEAR_BURN: 'linearBurn',
+  COLOR_BURN: 'colourBurn',
+  LIGHTEN: 'lighten',
+  SCREEN: 'screen',
+  LINEAR_DODGE: 'linearDodge',
+  COLOR_DODGE: 'colourDodge',
+  OVERLAY: 'overlay',
+  SOFT_LIGHT: 'softLight',
+  HARD_LIGHT: 'hardLight',
+  DIFFERENCE: 'difference',
+  EXCLUSION: 'exclusion',
+  HUE: 'hue',
+  SATURATION: 'saturation',
+  COLOR: 'colour',
+  LUMINOSITY: 'luminosity',
+};
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * True when the node uses a blend mode other than NORMAL / PASS_THROUGH.
+ */
+export function isBlended(node: IRNode): boolean {
+  return node.blendMode in BLEND_MODES;
+}
+
+/**
+ * Map each blended node drawn by a component (nested components excluded) to
+ * the member image that caches its composited pixels, e.g. "glowBlend".
+ */
+export function collectBlendCaches(root: IRNode, excludeChildIds: string[] = []): Map<string, string> {
+  const blended: IRNode[] = [];
+  const visit = (node: IRNode) => {
+    if (!node.visible || node.isMask || excludeChildIds.includes(node.id)) return;
+    if (isBlended(node)) blended.push(node);
+    if (hasIRChildren(node)) node.children.forEach(visit);
+  };
+  if (hasIRChildren(root)) root.children.forEach(visit);
+
+  const names = toMemberNames(blended);
+  return new Map(blended.map(n => [n.id, `${names.get(n.id)}Blend`]));
+}
+
+/**
+ * True when any visible node in the tree uses a blend mode.
+ */
+export function usesBlendModes(node: IRNode): boolean {
+  if (!node.visible) return false;
+  if (isBlended(node)) return true;
+  return hasIRChildren(node) && node.children.some(usesBlendModes);
+}
+
+/**
+ * resized() lines that drop composited blends, so they are redone against
+ * the new layout.
+ */
+export function generateBlendInvalidation(caches: Map<string, string>): string[] {
+  if (caches.size === 0) return [];
+  return [`// Blended images are re-composited for the new layout`, ...[...caches.values()].map(m => `${m} = {};`)];
+}
+
+/**
+ * Draw a blended node via its cached offscreen image. The backdrop and node
+ * are painted into component-sized images at the display's physical
+ * resolution once (again after a resize or scale change), then
+ * FigmaBlend::apply() mixes the node's pixels with the backdrop. The backdrop
+ * only holds what paint() draws inline: child components and anything behind
+ * the component are not part of it.
+ * @param backdropLines Paint code for everything drawn beneath the node, in component coordinates
+ * @param nodeLines Paint code for the node itself
+ * @param transform Transform from the coordinates nodeLines draw in to the component's, if any
+ */
+export function generateBlendedPaint(
+  node: IRNode,
+  cacheVar: string,
+  backdropLines: string[],
+  nodeLines: string[],
+  transform?: string,
+): string[] {
+  const lines: string[] = [];
+  lines.push(`// ${node.name}: ${node.blendMode} blend, composited offscreen`);
+  lines.push(`{`);
+  lines.push(`    const auto scale = g.getInternalContext().getPhysicalPixelScaleFactor();`);
+  lines.push(`    const auto width = juce::roundToInt((float) getWidth() * scale);`);
+  lines.push(`    const auto height = juce::roundToInt((float) getHeight() * scale);`);
+  lines.push(`    if (width > 0 && height > 0 && (${cacheVar}.getWidth() != width || ${cacheVar}.getHeight() != height))`);
+  lines.push(`    {`);
+  lines.push(`        juce::Image backdrop(juce::Image::ARGB, width, height, true);`);
+  if (backdropLines.length > 0) {
+    lines.push(`        {`);
+    lines.push(`            juce::Graphics g(backdrop);`);
+    lines.push(`            g.addTransform(juce::AffineTransform::scale(scale));`);
+    lines.push(...backdropLines.map(l => `            ${l}`));
+    lines.push(`        }`);
+  }
+  lines.push(`        ${cacheVar} = juce::Image(juce::Image::ARGB, width, height, true);`);
+  lines.push(`        {`);
+  lines.push(`            juce::Graphics g(${cacheVar});`);
+  lines.push(`            g.addTransform(juce::AffineTransform::scale(scale));`);
+  if (transform) lines.push(`            g.addTransform(${transform});`);
+  lines.push(...nodeLines.map(l => `            ${l}`));
+  lines.push(`        }`);
+  lines.push(`        FigmaBlend::apply(${cacheVar}, backdrop, FigmaBlend::Mode::${BLEND_MODES[node.blendMode]});`);
+  lines.push(`    }`);
+  const toLocal = transform ? `.followedBy(${transform}.inverted())` : '';
+  lines.push(`    g.drawImageTransformed(${cacheVar}, juce::AffineTransform::scale(1.0f / scale)${toLocal});`);
+  lines.push(`}`);
+  return lines;
+}
+
+/**
+ * Generate FigmaBlend.h: the blend formulas from the W3C compositing spec,
+ * which Figma follows, applied pixel by pixel.
+ */
+export function generateBlendHelperHeader(): string {
+  return `#pragma once
+
+#include <juce_gui_basics/juce_gui_basics.h>
+
+// Figma blend modes, composited offscreen (JUCE has no blend modes)
+
+namespace FigmaBlend
+{
+    enum class Mode
+    {
+        ${Object.values(BLEND_MODES).join(',\n        ')}
+    };
+
+    namespace detail
+    {
+        struct Rgb { float r, g, b; };
+
+        inline float blendChannel(Mode mode, float b, float s)
+        {
+            switch (mode)
+            {
+                case Mode::darken:      return juce::jmin(b, s);
+                case Mode::multiply:    return b * s;
+                case Mode::linearBurn:  return juce::jmax(0.0f, b + s - 1.0f);
+                case Mode::colourBurn:  return b >= 1.0f ? 1.0f : (s <= 0.0f ? 0.0f : 1.0f - juce::jmin(1.0f, (1.0f - b) / s));
+                case Mode::lighten:     return juce::jmax(b, s);
+                case Mode::screen:      return b + s - b * s;
+                case Mode::linearDodge: return juce::jmin(1.0f, b + s);
+                case Mode::colourDodge: return b <= 0.0f ? 0.0f : (s >= 1.0f ? 1.0f : juce::jmin(1.0f, b / (1.0f - s)));
+                case Mode::overlay:     return blendChannel(Mode::hardLight, s, b);
+                case Mode::hardLight:   return s <= 0.5f ? b * 2.0f * s : blendChannel(Mode::screen, b, 2.0f * s - 1.0f);
+                case Mode::softLight:
+                {
+                    if (s <= 0.5f)
+                        return b - (1.0f - 2.0f * s) * b * (1.0f - b);
+                    const float d = b <= 0.25f ? ((16.0f * b - 12.0f) * b + 4.0f) * b : std::sqrt(b);
+                    return b + (2.0f * s - 1.0f) * (d - b);
+                }
+                case Mode::difference:  return std::abs(b - s);
+                case Mode::exclusion:   return b + s - 2.0f * b * s;
+                default:                return s;
+            }
+        }
+
+        inline float lum(Rgb c) { return 0.3f * c.r + 0.59f * c.g + 0.11f * c.b; }
+        inline float sat(Rgb c) { return juce::jmax(c.r, c.g, c.b) - juce::jmin(c.r, c.g, c.b); }
+
+        inline Rgb clipColour(Rgb c)
+        {
+            const float l = lum(c);
+            const float n = juce::jmin(c.r, c.g, c.b);
+            const float x = juce::jmax(c.r, c.g, c.b);
+            if (n < 0.0f)
+                c = { l + (c.r - l) * l / (l - n), l + (c.g - l) * l / (l - n), l + (c.b - l) * l / (l - n) };
+            if (x > 1.0f)
+                c = { l + (c.r - l) * (1.0f - l) / (x - l), l + (c.g - l) * (1.0f - l) / (x - l), l + (c.b - l) * (1.0f - l) / (x - l) };
+            return c;
+        }
+
+        inline Rgb setLum(Rgb c, float l)
+        {
+            const float d = l - lum(c);
+            return clipColour({ c.r + d, c.g + d, c.b + d });
+        }
+
+        inline Rgb setSat(Rgb c, float s)
+        {
+            float* ch[] = { &c.r, &c.g, &c.b };
+            std::sort(std::begin(ch), std::end(ch), [](float* a, float* b) { return *a < *b; });
+            if (*ch[2] > *ch[0])
+            {
+                *ch[1] = (*ch[1] - *ch[0]) * s / (*ch[2] - *ch[0]);
+                *ch[2] = s;
+            }
+            else
+            {
+                *ch[1] = *ch[2] = 0.0f;
+            }
+            *ch[0] = 0.0f;
+            return c;
+        }
+
+        inline Rgb blend(Mode mode, Rgb b, Rgb s)
+        {
+            switch (mode)
+            {
+                case Mode::hue:        return setLum(setSat(s, sat(b)), lum(b));
+                case Mode::saturation: return setLum(setSat(b, sat(s)), lum(b));
+                case Mode::colour:     return setLum(s, lum(b));
+                case Mode::luminosity: return setLum(b, lum(s));
+                default:               return { blendChannel(mode, b.r, s.r), blendChannel(mode, b.g, s.g), blendChannel(mode, b.b, s.b) };
+            }
+        }
+    }
+
+    /**
+     * Blend the layer's colours with the backdrop in place. The layer keeps
+     * its alpha, so drawing it over the backdrop gives the blended result.
+     */
+    inline void apply(juce::Image& layer, const juce::Image& backdrop, Mode mode)
+    {
+        for (int y = 0; y < layer.getHeight(); ++y)
+        {
+            for (int x = 0; x < layer.getWidth(); ++x)
+            {
+                const auto src = layer.getPixelAt(x, y);
+                if (src.isTransparent())
+                    continue;
+
+                const auto dst = backdrop.getPixelAt(x, y);
+                const float ab = dst.getFloatAlpha();
+                const detail::Rgb s { src.getFloatRed(), src.getFloatGreen(), src.getFloatBlue() };
+                const auto mixed = detail::blend(mode, { dst.getFloatRed(), dst.getFloatGreen(), dst.getFloatBlue() }, s);
+
+                layer.setPixelAt(x, y, juce::Colour::fromFloatRGBA((1.0f - ab) * s.r + ab * mixed.r,
+                                                                   (1.0f - ab) * s.g + ab * mixed.g,
+                                                                   (1.0f - ab) * s.b + ab * mixed.b,
+                                                                   src.getFloatAlpha()));
+            }
+        }
+    }
+}
+`;
+}
@@ -0,0 +1,294 @@
+// Figma layer and background blurs: JUCE has no blur filter, so blurred
+// content is rendered into an image and blurred by the FigmaBlur.h helper.
+
+import type { IRNode, IRBlur } from '../ir/types.js';
+import { hasIRChildren } from '../ir/types.js';
+import { toMemberNames } from '../utils/naming.js';
+import { toFloat } from '../utils/math.js';
+
+export const BLUR_HELPER_FILE_NAME = 'FigmaBlur.h';
+
+/** Member images caching a node's blurred drawing and/or blurred backdrop. */
+export interface BlurCache {
+  layer?: string;
+  background?: string;
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * The node's first visible blur effect of the given type, if any.
+ */
+export function findBlur(node: IRNode, type: IRBlur['type']): IRBlur | undefined {
+  return node.effects.find((e): e is IRBlur => e.type === type && e.visible && e.radius > 0);
+}
+
+/**
+ * True when any visible node in the tree has a layer or background blur.
+ */
+export function usesBlur(node: IRNode, type?: IRBlur['type']): boolean {
+  if (!node.visible) return false;
+  if (type ? findBlur(node, type) : findBlur(node, 'layerBlur') || findBlur(node, 'backgroundBlur')) return true;
+  return hasIRChildren(node) && node.children.some(c => usesBlur(c, type));
+}
+
+/**
+ * Map each blurred node drawn by a component to the member images caching its
+ * blur, e.g. "cardBlur" / "glassBackdropBlur". The component's own layer blur
+ * blurs all its drawing; its backdrop is drawn by the parent, which also
+ * caches the backdrops of its nested components (excluded otherwise).
+ */
+export function collectBlurCaches(root: IRNode, excludeChildIds: string[] = []): Map<string, BlurCache> {
+  return collectCaches([root], excludeChildIds);
+}
+
+/**
+ * Blur caches for the variants of a component set, all drawn by one button
+ * class and so named uniquely across the set.
+ */
+export function collectVariantBlurCaches(variants: IRNode[]): Map<string, BlurCache> {
+  return collectCaches(variants, []);
+}
+
+function collectCaches(roots: IRNode[], excludeChildIds: string[]): Map<string, BlurCache> {
+  const blurred: IRNode[] = [];
+  const visit = (node: IRNode) => {
+    if (!node.visible || node.isMask) return;
+    if (excludeChildIds.includes(node.id)) {
+      if (findBlur(node, 'backgroundBlur')) blurred.push(node);
+      return;
+    }
+    if (findBlur(node, 'layerBlur') || findBlur(node, 'backgroundBlur')) blurred.push(node);
+    if (hasIRChildren(node)) node.children.forEach(visit);
+  };
+  for (const root of roots) {
+    if (findBlur(root, 'layerBlur')) blurred.push(root);
+    if (hasIRChildren(root)) root.children.forEach(visit);
+  }
+
+  const names = toMemberNames(blurred);
+  return new Map(blurred.map(n => [n.id, {
+    layer: !excludeChildIds.includes(n.id) && findBlur(n, 'layerBlur') ? `${names.get(n.id)}Blur` : undefined,
+    background: !roots.includes(n) && findBlur(n, 'backgroundBlur') ? `${names.get(n.id)}BackdropBlur` : undefined,
+  }]));
+}
+
+/**
+ * Cache member names in declaration order.
+ */
+export function blurCacheMembers(caches: Map<string, BlurCache>): string[] {
+  return [...caches.values()].flatMap(c => [c.layer, c.background]).filter((v): v is string => !!v);
+}
+
+/**
+ * resized() lines that drop cached blurs so they re-render at the new size.
+ */
+export function generateBlurInvalidation(caches: Map<string, BlurCache>): string[] {
+  const members = blurCacheMembers(caches);
+  if (members.length === 0) return [];
+  return [`// Blurred images are re-rendered at the new size`, ...members.map(m => `${m} = {};`)];
+}
+
+/**
+ * Draw a node through a layer blur: render the area it draws into into an
+ * image at the display's pixel scale, blur that, then draw the image. Cached
+ * in cacheVar when given.
+ * @param areaExpr Rectangle<float> the node draws into, blur included (default: the whole component)
+ */
+export function generateLayerBlurPaint(
+  blur: IRBlur,
+  cacheVar: string | undefined,
+  nodeLines: string[],
+  areaExpr = 'getLocalBounds().toFloat()',
+): string[] {
+  return [
+    `// Layer blur (radius: ${Math.round(blur.radius)}px)`,
+    `{`,
+    ...generateBlurredImage(cacheVar ?? 'layer', blur, nodeLines, cacheVar !== undefined, areaExpr).map(l => `    ${l}`),
+    `}`,
+  ];
+}
+
+/**
+ * Draw the blurred backdrop inside the node's shape, before its fills. Only
+ * the backdrop within blur reach of the shape is rendered.
+ * @param backdropLines Paint code for everything drawn beneath the node, in component coordinates
+ * @param clipLines Lines building the node's shape into a juce::Path named clip
+ * @param transform Transform from the coordinates the node draws in to the component's, if any
+ */
+export function generateBackgroundBlurPaint(
+  blur: IRBlur,
+  cacheVar: string | undefined,
+  backdropLines: string[],
+  clipLines: string[],
+  transform?: string,
+): string[] {
+  const area = `clip.getBounds().expanded(${toFloat(Math.ceil(blurExtent(blur.radius)))})`;
+  const backdrop = transform && backdropLines.length > 0
+    ? [`g.addTransform(${transform}.inverted());`, ...backdropLines]
+    : backdropLines;
+  return [
+    `// Background blur (radius: ${Math.round(blur.radius)}px)`,
+    `{`,
+    `    juce::Path clip;`,
+    ...clipLines.map(l => `    ${l}`),
+    ...generateBlurredImage(cacheVar ?? 'backdrop', blur, backdrop, cacheVar !== undefined, area, [
+      `g.saveState();`,
+      `g.reduceClipRegion(clip);`,
+    ], [`g.restoreState();`]).map(l => `    ${l}`),
+    `}`,
+  ];
+}
+
+/**
+ * How far a blur spreads a pixel: three standard deviations, with Figma's
+ * radius taken as twice the standard deviation.
+ */
+export function blurExtent(radius: number): number {
+  return radius * 1.5;
+}
+
+function generateBlurredImage(
+  imageVar: string,
+  blur: IRBlur,
+  contentLines: string[],
+  cached: boolean,
+  areaExpr: string,
+  before: string[] = [],
+  after: string[] = [],
+): string[] {
+  const render = [
+    ...(contentLines.length > 0 ? [
+      `{`,
+      `    juce::Graphics g(${imageVar});`,
+      `    g.addTransform(juce::AffineTransform::translation((float) -area.getX(), (float) -area.getY()).scaled(scale));`,
+      ...contentLines.map(l => `    ${l}`),
+      `}`,
+    ] : []),
+    `FigmaBlur::apply(${imageVar}, ${toFloat(blur.radius)} * scale);`,
+  ];
+  const draw = [
+    ...before,
+    `g.drawImageTransformed(${imageVar}, juce::AffineTransform::scale(1.0f / scale).translated((float) area.getX(), (float) area.getY()));`,
+    ...after,
+  ];
+
+  return [
+    `const auto scale = g.getInternalContext().getPhysicalPixelScaleFactor();`,
+    `const auto area = ${areaExpr}.getIntersection(getLocalBounds().toFloat()).getSmallestIntegerContainer();`,
+    `const auto width = juce::roundToInt((float) area.getWidth() * scale);`,
+    `const auto height = juce::roundToInt((float) area.getHeight() * scale);`,
+    `if (width > 0 && height > 0)`,
+    `{`,
+    ...(cached ? [
+      `    if (${imageVar}.getWidth() != width || ${imageVar}.getHeight() != height)`,
+      `    {`,
+      `        ${imageVar} = juce::Image(juce::Image::ARGB, width, height, true);`,
+      ...render.map(l => `        ${l}`),
+      `    }`,
+    ] : [
+      `    juce::Image ${imageVar}(juce::Image::ARGB, width, height, true);`,
+      ...render.map(l => `    ${l}`),
+    ]),
+    ...draw.map(l => `    ${l}`),
+    `}`,
+  ];
+}
+
+/**
+ * Generate FigmaBlur.h: a separable Gaussian blur. Figma's blur radius is
+ * treated as twice the standard deviation.
+ */
+export function generateBlurHelperHeader(): string {
+  return `#pragma once
+
+#include <juce_gui_basics/juce_gui_basics.h>
+#include <cmath>
+#include <vector>
+
+// Gaussian blur for Figma layer and background blurs (JUCE has no blur filter)
+
+namespace FigmaBlur
+{
+    /**
+     * Blur an image in place. Pixels outside the image count as transparent,
+     * so blurred content fades out at the edges as it does in Figma.
+     */
+    inline void apply(juce::Image& image, float radius)
+    {
+        const float sigma = radius * 0.5f;
+        const int w = image.getWidth();
+        const int h = image.getHeight();
+        if (sigma <= 0.0f || w == 0 || h == 0)
+            return;
+        jassert(image.getFormat() == juce::Image::ARGB);
+
+        const int extent = (int) std::ceil(sigma * 3.0f);
+        std::vector<float> kernel((size_t) (extent * 2 + 1));
+        float sum = 0.0f;
+        for (int i = -extent; i <= extent; ++i)
+            sum += kernel[(size_t) (i + extent)] = std::exp(-(float) (i * i) / (2.0f * sigma * sigma));
+        for (auto& k : kernel)
+            k /= sum;
+
+        // ARGB images are premultiplied, so transparent pixels don't bleed colour
+        juce::Image::BitmapData data(image, juce::Image::BitmapData::readWrite);
+        std::vector<float> pixels((size_t) (w * h * 4)), temp(pixels.size());
+        for (int y = 0; y < h; ++y)
+        {
+            const auto* row = reinterpret_cast<const juce::PixelARGB*>(data.getLinePointer(y));
+            float* p = &pixels[(size_t) (y * w * 4)];
+            for (int x = 0; x < w; ++x, p += 4)
+            {
+                p[0] = row[x].getRed();
+                p[1] = row[x].getGreen();
+                p[2] = row[x].getBlue();
+                p[3] = row[x].getAlpha();
+            }
+        }
+
+        // One direction at a time, with the kernel cut off at the image edges
+        const auto pass = [&](const std::vector<float>& src, std::vector<float>& dst, bool horizontal)
+        {
+            const int stride = (horizontal ? 1 : w) * 4;
+            for (int y = 0; y < h; ++y)
+            {
+                for (int x = 0; x < w; ++x)
+                {
+                    const int pos = horizontal ? x : y;
+                    const int size = horizontal ? w : h;
+                    const int from = juce::jmax(-extent, -pos);
+                    const int to = juce::jmin(extent, size - 1 - pos);
+                    const float* p = &src[(size_t) ((y * w + x) * 4 + from * stride)];
+                    float acc[4] = {};
+                    for (int i = from; i <= to; ++i, p += stride)
+                    {
+                        const float k = kernel[(size_t) (i + extent)];
+                        acc[0] += p[0] * k;
+                        acc[1] += p[1] * k;
+                        acc[2] += p[2] * k;
+                        acc[3] += p[3] * k;
+                    }
+                    std::copy(acc, acc + 4, &dst[(size_t) ((y * w + x) * 4)]);
+                }
+            }
+        };
+
+        pass(pixels, temp, true);
+        pass(temp, pixels, false);
+
+        const auto toByte = [](float v) { return (juce::uint8) juce::jlimit(0, 255, juce::roundToInt(v)); };
+        for (int y = 0; y < h; ++y)
+        {
+            auto* row = reinterpret_cast<juce::PixelARGB*>(data.getLinePointer(y));
+            const float* p = &pixels[(size_t) (y * w * 4)];
+            for (int x = 0; x < w; ++x, p += 4)
+            {
+                const auto a = toByte(p[3]);
+                row[x].setARGB(a, juce::jmin(a, toByte(p[0])), juce::jmin(a, toByte(p[1])), juce::jmin(a, toByte(p[2])));
+            }
+        }
+    }
+}
+`;
+}
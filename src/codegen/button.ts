@@ -0,0 +1,217 @@
+// Generate juce::Button subclasses from IR component sets (variants).
+//
+// Variant properties are matched by name/value conventions:
+//   State=Default/Hover/Pressed/Disabled → isEnabled() / highlighted / down
+//   Value=On/Off                          → getToggleState()
+// Any other properties are pinned to their default value.
+
+import type { IRComponentSetNode, IRFrameNode, IRVariantProperty } from '../ir/types.js';
+import { generatePaintBody } from './paint.js';
+import { collectVariantBlurCaches, type BlurCache } from './blur.js';
+import { toClassName } from '../utils/naming.js';
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+export interface ButtonVariantMethod {
+  name: string; // e.g. "paintHoverOn"
+  comment: string; // e.g. "State=Hover, Value=On"
+  variant: IRFrameNode;
+  paintBody: string;
+}
+
+export interface ButtonVariantInfo {
+  methods: ButtonVariantMethod[];
+  paintButtonBody: string;
+  isToggle: boolean;
+  // Member images for blurred nodes across all variants, by node ID
+  blurCaches: Map<string, BlurCache>;
+}
+
+/**
+ * Build the per-variant paint methods and the paintButton() dispatch body
+ * for a component set.
+ */
+export function generateButtonVariants(set: IRComponentSetNode): ButtonVariantInfo {
+  const variants = set.children.filter(v => v.visible);
+  const stateProp = findStateProperty(set.variantProperties);
+  const toggleProp = findToggleProperty(set.variantProperties, stateProp);
+
+  // One private paint method per variant
+  const blurCaches = collectVariantBlurCaches(variants);
+  const usedNames = new Set<string>();
+  const methods = variants.map(variant => {
+    const props = variant.variantProperties ?? {};
+    const base = 'paint' + toClassName(Object.values(props).join(' ') || variant.name);
+    let name = base;
+    for (let i = 2; usedNames.has(name); i++) name = `${base}${i}`;
+    usedNames.add(name);
+
+    return {
+      name,
+      comment: Object.entries(props).map(([k, v]) => `${k}=${v}`).join(', ') || variant.name,
+      variant,
+      paintBody: generatePaintBody(variant, [], new Map(), blurCaches),
+    };
+  });
+
+  const choose = (interaction: Interaction, toggle: Toggle): string | null => {
+    const variant = selectVariant(variants, set.variantProperties, stateProp, toggleProp, interaction, toggle);
+    return methods.find(m => m.variant === variant)?.name ?? null;
+  };
+
+  const callFor = (interaction: Interaction): string => {
+    const on = choose(interaction, 'on');
+    const off = choose(interaction, 'off');
+    if (!on || !off) return '';
+    if (!toggleProp || on === off) return `${on}(g);`;
+    return `isOn ? ${on}(g) : ${off}(g);`;
+  };
+
+  const lines: string[] = [];
+  if (methods.length > 0) {
+    if (toggleProp) {
+      lines.push(`const bool isOn = getToggleState();`);
+      lines.push(``);
+    }
+
+    const normal = callFor('normal');
+    const over = callFor('over');
+    const down = callFor('down');
+    const disabled = callFor('disabled');
+
+    // A pressed button is also highlighted, so "down" only needs its own
+    // branch when it differs from the hover art.
+    const branches: Array<[string, string]> = [];
+    if (disabled !== normal) branches.push(['! isEnabled()', disabled]);
+    if (down !== over) branches.push(['shouldDrawButtonAsDown', down]);
+    if (over !== normal) branches.push(['shouldDrawButtonAsHighlighted', over]);
+
+    branches.forEach(([condition, call], i) => {
+      lines.push(`${i === 0 ? 'if' : 'else if'} (${condition})`);
+      lines.push(`    ${call}`);
+    });
+    if (branches.length > 0) {
+      lines.push(`else`);
+      lines.push(`    ${normal}`);
+    } else {
+      lines.push(normal);
+    }
+  }
+
+  return {
+    methods,
+    paintButtonBody: lines.join('\n'),
+    isToggle: toggleProp !== null,
+    blurCaches,
+  };
+}
+
+// ─── Variant Matching ───────────────────────────────────────────────────────
+
+type Interaction = 'normal' | 'over' | 'down' | 'disabled';
+type Toggle = 'on' | 'off';
+
+const INTERACTION_VALUES: Record<Interaction, string[]> = {
+  normal: ['default', 'normal', 'idle', 'rest', 'enabled', 'none'],
+  over: ['hover', 'hovered', 'over', 'highlighted', 'highlight'],
+  down: ['pressed', 'press', 'down', 'active', 'clicked'],
+  disabled: ['disabled', 'inactive'],
+};
+
+const TOGGLE_VALUES: Record<Toggle, string[]> = {
+  on: ['on', 'true', 'yes', 'checked', 'selected'],
+  off: ['off', 'false', 'no', 'unchecked', 'unselected'],
+};
+
+// Fallback order when a set has no variant for the requested interaction
+const INTERACTION_FALLBACKS: Record<Interaction, Interaction[]> = {
+  normal: ['normal'],
+  over: ['over', 'normal'],
+  down: ['down', 'over', 'normal'],
+  disabled: ['disabled', 'normal'],
+};
+
+function classifyInteraction(value: string): Interaction | null {
+  const v = value.trim().toLowerCase();
+  for (const key of Object.keys(INTERACTION_VALUES) as Interaction[]) {
+    if (INTERACTION_VALUES[key].includes(v)) return key;
+  }
+  return null;
+}
+
+function classifyToggle(value: string): Toggle | null {
+  const v = value.trim().toLowerCase();
+  if (TOGGLE_VALUES.on.includes(v)) return 'on';
+  if (TOGGLE_VALUES.off.includes(v)) return 'off';
+  return null;
+}
+
+function findStateProperty(props: IRVariantProperty[]): IRVariantProperty | null {
+  return (
+    props.find(p => /^(state|status|interaction)$/i.test(p.name)) ??
+    props.find(p => p.options.some(o => {
+      const c = classifyInteraction(o);
+      return c !== null && c !== 'normal';
+    })) ??
+    null
+  );
+}
+
+function findToggleProperty(
+  props: IRVariantProperty[],
+  stateProp: IRVariantProperty | null,
+): IRVariantProperty | null {
+  return (
+    props.find(p => p !== stateProp && p.options.length > 0 && p.options.every(o => classifyToggle(o) !== null)) ??
+    null
+  );
+}
+
+function selectVariant(
+  variants: IRFrameNode[],
+  props: IRVariantProperty[],
+  stateProp: IRVariantProperty | null,
+  toggleProp: IRVariantProperty | null,
+  interaction: Interaction,
+  toggle: Toggle,
+): IRFrameNode | null {
+  if (variants.length === 0) return null;
+
+  // The toggle value outranks the interaction: an "on" button keeps its
+  // "on" art on hover even when the set has no "Hover, On" variant.
+  let candidates = variants;
+  if (toggleProp) {
+    const matching = variants.filter(v => classifyToggle(v.variantProperties?.[toggleProp.name] ?? '') === toggle);
+    if (matching.length > 0) candidates = matching;
+  }
+
+  if (stateProp) {
+    for (const fallback of INTERACTION_FALLBACKS[interaction]) {
+      const matching = candidates.filter(v => {
+        const value = v.variantProperties?.[stateProp.name];
+        return value !== undefined && classifyInteraction(value) === fallback;
+      });
+      if (matching.length > 0) {
+        candidates = matching;
+        break;
+      }
+    }
+  }
+
+  // Prefer default values for everything else
+  let best = candidates[0];
+  let bestScore = -1;
+  for (const variant of candidates) {
+    const values = variant.variantProperties ?? {};
+    let score = 0;
+    for (const prop of props) {
+      if (prop === stateProp || prop === toggleProp) continue;
+      if (values[prop.name] === prop.defaultValue) score += 1;
+    }
+    if (score > bestScore) {
+      best = variant;
+      bestScore = score;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,85 @@
+// Rounded frames that clip their content: JUCE clips child components to
+// their rectangular bounds only, so children reaching into a rounded corner
+// are drawn through the FigmaClip.h component effect.
+
+import type { IRNode, IRFrameNode } from '../ir/types.js';
+import { hasIRChildren, isIRFrameNode, isIRNestedComponent } from '../ir/types.js';
+
+export const CLIP_HELPER_FILE_NAME = 'FigmaClip.h';
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * True when a child of a rounded, content-clipping frame reaches into one of
+ * its rounded corners.
+ */
+export function overlapsRoundedCorner(frame: IRFrameNode, child: IRNode): boolean {
+  if (!frame.clipsContent) return false;
+
+  const { topLeft, topRight, bottomRight, bottomLeft } = frame.cornerRadius;
+  const { width, height } = frame.bounds;
+  const left = child.bounds.x - frame.bounds.x;
+  const top = child.bounds.y - frame.bounds.y;
+  const right = left + child.bounds.width;
+  const bottom = top + child.bounds.height;
+
+  return (topLeft > 0 && left < topLeft && top < topLeft)
+    || (topRight > 0 && right > width - topRight && top < topRight)
+    || (bottomRight > 0 && right > width - bottomRight && bottom > height - bottomRight)
+    || (bottomLeft > 0 && left < bottomLeft && bottom > height - bottomLeft);
+}
+
+/**
+ * True when any frame in the tree has a child component (a nested frame or
+ * component set) reaching into its rounded corners.
+ */
+export function usesChildClipping(node: IRNode): boolean {
+  if (!node.visible || !hasIRChildren(node)) return false;
+  if (isIRFrameNode(node) && node.children.some(c => isIRNestedComponent(c) && overlapsRoundedCorner(node, c))) {
+    return true;
+  }
+  return node.children.some(usesChildClipping);
+}
+
+/**
+ * Generate FigmaClip.h: a component effect that draws a child component
+ * clipped to a path given in its parent's coordinates.
+ */
+export function generateClipHelperHeader(): string {
+  return `#pragma once
+
+#include <juce_gui_basics/juce_gui_basics.h>
+
+// Child components clipped to a rounded parent (JUCE only clips them to rectangles)
+
+namespace FigmaClip
+{
+    /**
+     * Set as a child's component effect: the child is rendered into an image,
+     * which is drawn through the parent's clip path. Call update() whenever
+     * the child moves or the clip changes.
+     */
+    class ChildClip : public juce::ImageEffectFilter
+    {
+    public:
+        void update(const juce::Path& parentClip, const juce::Component& child)
+        {
+            clip = parentClip;
+            clip.applyTransform(child.getTransform().inverted()
+                                    .translated((float) -child.getX(), (float) -child.getY()));
+        }
+
+        void applyEffect(juce::Image& image, juce::Graphics& g, float scaleFactor, float alpha) override
+        {
+            // The image is at physical resolution and g is scaled to match
+            g.reduceClipRegion(clip, juce::AffineTransform::scale(scaleFactor));
+            g.setOpacity(alpha);
+            g.drawImageAt(image, 0, 0);
+        }
+
+    private:
+        juce::Path clip;
+    };
+}
+`;
+}
@@ -6,7 +6,11 @@ import type {
   IRSolidFill,
   IRLinearGradientFill,
   IRRadialGradientFill,
+  IRAngularGradientFill,
+  IRDiamondGradientFill,
   IRImageFill,
+  IRStroke,
+  IRTransform,
 } from '../ir/types.js';
 
 // ─── Colour Primitives ──────────────────────────────────────────────────────
@@ -31,11 +35,13 @@ export function generateColour(color: IRColor): string {
 
 /**
  * Generate a juce::Colour expression with separate opacity applied.
+ * When a design token is given, the shared Colours:: constant is used instead.
  */
-export function generateColourWithOpacity(color: IRColor, opacity: number): string {
-  if (opacity >= 1) return generateColour(color);
+export function generateColourWithOpacity(color: IRColor, opacity: number, token?: string): string {
+  const colour = token ? `Colours::${token}` : generateColour(color);
+  if (opacity >= 1) return colour;
   const rounded = Math.round(opacity * 1000) / 1000;
-  return `${generateColour(color)}.withAlpha(${formatFloat(rounded)})`;
+  return `${colour}.withAlpha(${formatFloat(rounded)})`;
 }
 
 // ─── Fill Code Generation ───────────────────────────────────────────────────
@@ -54,17 +60,55 @@ export function generateFillCode(fill: IRFill, boundsVar: string): string {
       return generateLinearGradientCode(fill, boundsVar);
     case 'radialGradient':
       return generateRadialGradientCode(fill, boundsVar);
+    case 'angularGradient':
+      return generateAngularGradientCode(fill, boundsVar);
+    case 'diamondGradient':
+      return generateDiamondGradientCode(fill, boundsVar);
     case 'image':
       return generateImageFillCode(fill, boundsVar);
   }
 }
 
+/**
+ * True for fills whose code paints the whole bounds itself (angular and
+ * diamond gradients, images) rather than setting a colour for a following
+ * fill call. Callers clip these to the node's shape.
+ */
+export function fillsBoundsItself(fill: IRFill): boolean {
+  return fill.type === 'angularGradient' || fill.type === 'diamondGradient' || fill.type === 'image';
+}
+
+/**
+ * Generate the code that makes a stroke's colour, gradient or image the
+ * current fill type, so the following draw/stroke calls use it.
+ */
+export function generateStrokePaintCode(stroke: IRStroke, boundsVar: string): string {
+  switch (stroke.paint?.type) {
+    case undefined:
+      return `g.setColour(${generateColourWithOpacity(stroke.color, stroke.opacity, stroke.token)});\n`;
+    case 'linearGradient':
+      return generateLinearGradientCode(stroke.paint, boundsVar);
+    case 'radialGradient':
+      return generateRadialGradientCode(stroke.paint, boundsVar);
+    case 'angularGradient':
+    case 'diamondGradient': {
+      // No JUCE fill type for these: stroke with the first stop's colour, and say so
+      const kind = stroke.paint.type === 'angularGradient' ? 'Angular' : 'Diamond';
+      return `// ${kind} gradient stroke approximated with its first stop colour\n`
+        + `g.setColour(${generateColourWithOpacity(stroke.color, stroke.opacity)});\n`;
+    }
+    case 'image':
+      return generateImageFillTypeCode(stroke.paint, boundsVar);
+  }
+}
+
 function generateSolidFillCode(fill: IRSolidFill): string {
-  return `g.setColour(${generateColourWithOpacity(fill.color, fill.opacity)});\n`;
+  return `g.setColour(${generateColourWithOpacity(fill.color, fill.opacity, fill.token)});\n`;
 }
 
 function generateLinearGradientCode(fill: IRLinearGradientFill, boundsVar: string): string {
   if (fill.stops.length < 2) return '';
+  if (isInvertible(fill.transform)) return generateTransformedGradientCode(fill, fill.transform, false, boundsVar);
 
   const lines: string[] = [];
   const first = fill.stops[0];
@@ -93,6 +137,7 @@ function generateLinearGradientCode(fill: IRLinearGradientFill, boundsVar: strin
 
 function generateRadialGradientCode(fill: IRRadialGradientFill, boundsVar: string): string {
   if (fill.stops.length < 2) return '';
+  if (isInvertible(fill.transform)) return generateTransformedGradientCode(fill, fill.transform, true, boundsVar);
 
   const lines: string[] = [];
   const first = fill.stops[0];
@@ -119,6 +164,135 @@ function generateRadialGradientCode(fill: IRRadialGradientFill, boundsVar: strin
   return lines.join('\n') + '\n';
 }
 
+/**
+ * Generate a gradient defined in its own space (linear: (0,0) → (1,0);
+ * radial: the unit circle) and mapped onto the bounds by the Figma handle
+ * transform, so skewed, rotated and elliptical gradients match.
+ */
+function generateTransformedGradientCode(
+  fill: IRLinearGradientFill | IRRadialGradientFill,
+  t: IRTransform,
+  isRadial: boolean,
+  boundsVar: string,
+): string {
+  const lines: string[] = [];
+  const first = fill.stops[0];
+  const last = fill.stops[fill.stops.length - 1];
+  const w = `${boundsVar}.getWidth()`;
+  const h = `${boundsVar}.getHeight()`;
+
+  lines.push(`juce::ColourGradient gradient(${generateColour(first.color)}, 0.0f, 0.0f, ${generateColour(last.color)}, 1.0f, 0.0f, ${isRadial});`);
+  for (let i = 1; i < fill.stops.length - 1; i++) {
+    const stop = fill.stops[i];
+    lines.push(`gradient.addColour(${formatFloat(stop.position)}, ${generateColour(stop.color)});`);
+  }
+
+  if (fill.opacity < 1) {
+    lines.push(`gradient.multiplyOpacity(${formatFloat(fill.opacity)});`);
+  }
+
+  lines.push(`g.setFillType(juce::FillType(gradient, juce::AffineTransform(`);
+  lines.push(`    ${w} * ${formatFloat(t.m00)}, ${w} * ${formatFloat(t.m01)}, ${relativeX(boundsVar, t.m02)},`);
+  lines.push(`    ${h} * ${formatFloat(t.m10)}, ${h} * ${formatFloat(t.m11)}, ${relativeY(boundsVar, t.m12)})));`);
+  return lines.join('\n') + '\n';
+}
+
+function isInvertible(t: IRTransform | undefined): t is IRTransform {
+  return !!t && Math.abs(t.m00 * t.m11 - t.m01 * t.m10) > 1e-9;
+}
+
+/**
+ * Generate an angular (conic) gradient as a fan of thin pie wedges around the
+ * centre, each filled with the ramp colour at its angle. Paints the whole
+ * bounds; the caller clips to the shape.
+ */
+function generateAngularGradientCode(fill: IRAngularGradientFill, boundsVar: string): string {
+  if (fill.stops.length < 2) return '';
+
+  const lines: string[] = [];
+  lines.push(`{`);
+  lines.push(...generateGradientRamp(fill).map(l => `    ${l}`));
+  lines.push(`    juce::Point<float> centre(${relativeX(boundsVar, fill.center.x)}, ${relativeY(boundsVar, fill.center.y)});`);
+  lines.push(`    juce::Point<float> handle(${relativeX(boundsVar, fill.start.x)}, ${relativeY(boundsVar, fill.start.y)});`);
+  lines.push(`    const float start = centre.getAngleToPoint(handle);`);
+  lines.push(`    const float reach = ${boundsVar}.getWidth() + ${boundsVar}.getHeight();`);
+  lines.push(`    constexpr int wedges = 180;`);
+  lines.push(`    const float step = juce::MathConstants<float>::twoPi / (float) wedges;`);
+  lines.push(`    for (int i = 0; i < wedges; ++i)`);
+  lines.push(`    {`);
+  lines.push(`        // Overlap the next wedge slightly to hide anti-aliased seams`);
+  lines.push(`        const float from = start + step * (float) i;`);
+  lines.push(`        juce::Path wedge;`);
+  lines.push(`        wedge.addPieSegment(centre.x - reach, centre.y - reach, reach * 2.0f, reach * 2.0f,`);
+  lines.push(`                            from, from + step * (i + 1 < wedges ? 1.5f : 1.0f), 0.0f);`);
+  lines.push(`        g.setColour(ramp.getColourAtPosition(((float) i + 0.5f) / (float) wedges));`);
+  lines.push(`        g.fillPath(wedge);`);
+  lines.push(`    }`);
+  lines.push(`}`);
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Generate a diamond gradient as nested diamonds, outermost first, each
+ * filled with the ramp colour at its distance from the centre. Paints the
+ * whole bounds; the caller clips to the shape.
+ */
+function generateDiamondGradientCode(fill: IRDiamondGradientFill, boundsVar: string): string {
+  if (fill.stops.length < 2) return '';
+
+  const [a, b] = fill.axes;
+  const lines: string[] = [];
+  lines.push(`{`);
+  lines.push(...generateGradientRamp(fill).map(l => `    ${l}`));
+  lines.push(`    juce::Point<float> centre(${relativeX(boundsVar, fill.center.x)}, ${relativeY(boundsVar, fill.center.y)});`);
+  lines.push(`    juce::Point<float> axisA(${boundsVar}.getWidth() * ${formatFloat(a.x)}, ${boundsVar}.getHeight() * ${formatFloat(a.y)});`);
+  lines.push(`    juce::Point<float> axisB(${boundsVar}.getWidth() * ${formatFloat(b.x)}, ${boundsVar}.getHeight() * ${formatFloat(b.y)});`);
+  lines.push(`    g.setColour(ramp.getColourAtPosition(1.0));`);
+  lines.push(`    g.fillRect(${boundsVar});`);
+  lines.push(`    constexpr int rings = 64;`);
+  lines.push(`    for (int i = rings; i > 0; --i)`);
+  lines.push(`    {`);
+  lines.push(`        const float t = (float) i / (float) rings;`);
+  lines.push(`        juce::Path ring;`);
+  lines.push(`        ring.startNewSubPath(centre + axisA * t);`);
+  lines.push(`        ring.lineTo(centre + axisB * t);`);
+  lines.push(`        ring.lineTo(centre - axisA * t);`);
+  lines.push(`        ring.lineTo(centre - axisB * t);`);
+  lines.push(`        ring.closeSubPath();`);
+  lines.push(`        g.setColour(ramp.getColourAtPosition(t - 0.5f / (float) rings));`);
+  lines.push(`        g.fillPath(ring);`);
+  lines.push(`    }`);
+  lines.push(`}`);
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * A ColourGradient used only as a colour ramp: stops from 0 to 1 along x.
+ */
+function generateGradientRamp(fill: IRAngularGradientFill | IRDiamondGradientFill): string[] {
+  const lines: string[] = [];
+  const first = fill.stops[0];
+  const last = fill.stops[fill.stops.length - 1];
+
+  lines.push(`juce::ColourGradient ramp(${generateColour(first.color)}, 0.0f, 0.0f, ${generateColour(last.color)}, 1.0f, 0.0f, false);`);
+  for (let i = 1; i < fill.stops.length - 1; i++) {
+    const stop = fill.stops[i];
+    lines.push(`ramp.addColour(${formatFloat(stop.position)}, ${generateColour(stop.color)});`);
+  }
+  if (fill.opacity < 1) {
+    lines.push(`ramp.multiplyOpacity(${formatFloat(fill.opacity)});`);
+  }
+  return lines;
+}
+
+function relativeX(boundsVar: string, x: number): string {
+  return `${boundsVar}.getX() + ${boundsVar}.getWidth() * ${formatFloat(x)}`;
+}
+
+function relativeY(boundsVar: string, y: number): string {
+  return `${boundsVar}.getY() + ${boundsVar}.getHeight() * ${formatFloat(y)}`;
+}
+
 /**
  * Generate image drawing code for an image fill.
  * Returns the drawing code that references a member variable named `image_<imageRef>`.
@@ -150,13 +324,33 @@ function generateImageFillCode(fill: IRImageFill, boundsVar: string): string {
       lines.push(`                juce::RectanglePlacement::centred | juce::RectanglePlacement::onlyReduceInSize);`);
       break;
     
-    case 'crop':
+    case 'crop': {
+      const crop = imageCropTransform(imageMemberName, fill.transform, boundsVar);
+      if (crop) {
+        // Place the image so the designer's crop rectangle fills the bounds
+        lines.push(`    g.drawImageTransformed(${imageMemberName}, ${crop});`);
+        break;
+      }
       // Fill bounds and crop, maintain aspect ratio
       lines.push(`    g.drawImage(${imageMemberName}, ${boundsVar},`);
       lines.push(`                juce::RectanglePlacement::fillDestination);`);
       break;
+    }
     
     case 'tile':
+      if (fill.scalingFactor !== undefined && fill.scalingFactor !== 1) {
+        // Tile the image at the scaling factor
+        lines.push(`    auto tileW = (float) ${imageMemberName}.getWidth() * ${formatFloat(fill.scalingFactor)};`);
+        lines.push(`    auto tileH = (float) ${imageMemberName}.getHeight() * ${formatFloat(fill.scalingFactor)};`);
+        lines.push(`    for (float y = ${boundsVar}.getY(); y < ${boundsVar}.getBottom(); y += tileH)`);
+        lines.push(`    {`);
+        lines.push(`        for (float x = ${boundsVar}.getX(); x < ${boundsVar}.getRight(); x += tileW)`);
+        lines.push(`        {`);
+        lines.push(`            g.drawImage(${imageMemberName}, juce::Rectangle<float>(x, y, tileW, tileH));`);
+        lines.push(`        }`);
+        lines.push(`    }`);
+        break;
+      }
       // Tile the image
       lines.push(`    auto tileW = ${imageMemberName}.getWidth();`);
       lines.push(`    auto tileH = ${imageMemberName}.getHeight();`);
@@ -180,6 +374,63 @@ function generateImageFillCode(fill: IRImageFill, boundsVar: string): string {
   return lines.join('\n') + '\n';
 }
 
+/**
+ * Generate code that sets an image as the fill type (for strokes), placed
+ * according to the scale mode. Tiled images repeat from the bounds' origin.
+ */
+function generateImageFillTypeCode(fill: IRImageFill, boundsVar: string): string {
+  const imageMemberName = imageRefToMemberName(fill.imageRef);
+  let transform: string;
+  switch (fill.scaleMode) {
+    case 'fill':
+      transform = imagePlacementTransform(imageMemberName, 'juce::RectanglePlacement::stretchToFit', boundsVar);
+      break;
+    case 'fit':
+      transform = imagePlacementTransform(imageMemberName, 'juce::RectanglePlacement::centred', boundsVar);
+      break;
+    case 'crop':
+      transform = imageCropTransform(imageMemberName, fill.transform, boundsVar)
+        ?? imagePlacementTransform(imageMemberName, 'juce::RectanglePlacement::fillDestination', boundsVar);
+      break;
+    case 'tile':
+      transform = fill.scalingFactor !== undefined && fill.scalingFactor !== 1
+        ? `juce::AffineTransform::scale(${formatFloat(fill.scalingFactor)}).translated(${boundsVar}.getX(), ${boundsVar}.getY())`
+        : `juce::AffineTransform::translation(${boundsVar}.getX(), ${boundsVar}.getY())`;
+      break;
+  }
+
+  const lines: string[] = [];
+  lines.push(`juce::FillType imageFill(${imageMemberName}, ${transform});`);
+  if (fill.opacity < 1) {
+    lines.push(`imageFill.setOpacity(${formatFloat(fill.opacity)});`);
+  }
+  lines.push(`g.setFillType(imageFill);`);
+  return lines.join('\n') + '\n';
+}
+
+function imagePlacementTransform(imageMemberName: string, placement: string, boundsVar: string): string {
+  return `juce::RectanglePlacement(${placement}).getTransformToFit(${imageMemberName}.getBounds().toFloat(), ${boundsVar})`;
+}
+
+/**
+ * Image pixels → component space for a Figma crop. The crop transform maps
+ * normalised bounds to normalised image space, so its inverse is applied
+ * between normalising the image and scaling up to the bounds. Null when the
+ * transform is missing or degenerate.
+ */
+function imageCropTransform(imageMemberName: string, t: IRTransform | undefined, boundsVar: string): string | null {
+  if (!isInvertible(t)) return null;
+  const det = t.m00 * t.m11 - t.m01 * t.m10;
+  const inverse = [
+    t.m11 / det, -t.m01 / det, (t.m01 * t.m12 - t.m02 * t.m11) / det,
+    -t.m10 / det, t.m00 / det, (t.m02 * t.m10 - t.m00 * t.m12) / det,
+  ];
+  return `juce::AffineTransform::scale(1.0f / (float) ${imageMemberName}.getWidth(), 1.0f / (float) ${imageMemberName}.getHeight())`
+    + `.followedBy(juce::AffineTransform(${inverse.map(formatFloat).join(', ')}))`
+    + `.followedBy(juce::AffineTransform::scale(${boundsVar}.getWidth(), ${boundsVar}.getHeight()))`
+    + `.translated(${boundsVar}.getX(), ${boundsVar}.getY())`;
+}
+
 /**
  * Convert an image ref hash to a valid C++ member variable name.
  */
@@ -1,13 +1,47 @@
 // Orchestrator: IR tree → complete JUCE Component .h + .cpp files.
 
-import type { IRDocument, IRPage, IRNode, IRFrameNode, IRFill } from '../ir/types.js';
-import { isIRFrameNode, hasIRChildren } from '../ir/types.js';
-import { generatePaintBody } from './paint.js';
-import { generateResizedBody } from './resized.js';
-import { generateHeader, generateImplementation, toGuardName } from './templates.js';
-import { toClassName, toVariableName } from '../utils/naming.js';
+import type { IRDocument, IRPage, IRNode, IRFrameNode, IRComponentSetNode } from '../ir/types.js';
+import { isIRFrameNode, isIRComponentSetNode, isIRNestedComponent, hasIRChildren } from '../ir/types.js';
+import { generatePaintBody, generateHitTestBody, generateChildClipUpdate } from './paint.js';
+import {
+  generateResizedBody,
+  collectLayoutBounds,
+  collectMemberNames,
+  flattenGroups,
+  type NestedComponentInfo,
+} from './resized.js';
+import { generateButtonVariants } from './button.js';
+import { escapeCppString } from './text.js';
+import {
+  generateHeader,
+  generateImplementation,
+  generateButtonHeader,
+  generateButtonImplementation,
+  generateOverrideHeader,
+  generateOverrideImplementation,
+  toGuardName,
+} from './templates.js';
+import { toClassName } from '../utils/naming.js';
 import { imageRefToMemberName } from './colour.js';
 import { detectComponentHint, generateMemberDeclaration, generateConstructorInit } from './component-hints.js';
+import { generateDesignTokensHeader, usesDesignTokens, DESIGN_TOKENS_FILE_NAME } from './tokens.js';
+import {
+  collectBlendCaches,
+  generateBlendHelperHeader,
+  generateBlendInvalidation,
+  usesBlendModes,
+  BLEND_HELPER_FILE_NAME,
+} from './blend.js';
+import {
+  collectBlurCaches,
+  generateBlurHelperHeader,
+  generateBlurInvalidation,
+  usesBlur,
+  BLUR_HELPER_FILE_NAME,
+  type BlurCache,
+} from './blur.js';
+import { generateSquircleHelperHeader, usesCornerSmoothing, SQUIRCLE_HELPER_FILE_NAME } from './squircle.js';
+import { generateClipHelperHeader, overlapsRoundedCorner, usesChildClipping, CLIP_HELPER_FILE_NAME } from './clip.js';
 import type { DownloadedImage } from '../figma/image-downloader.js';
 
 // ─── Public API ─────────────────────────────────────────────────────────────
@@ -23,22 +57,32 @@ export interface GeneratedComponent {
   implementation: GeneratedFile;
 }
 
+export interface GenerationOptions {
+  // Composite Figma blend modes offscreen (see FigmaBlend.h); off by default
+  blendModes?: boolean;
+}
+
 /**
  * Generate JUCE Component files from an IR document.
  * Top-level frames (and components) become individual Component classes.
  * Nested frames are also generated as separate components.
+ * Instances share one class generated from their main component.
+ * Component sets (variants) become juce::Button subclasses, also when nested.
  * 
  * @param doc - IR document to generate from
  * @param downloadedImages - Optional array of downloaded images with file paths
+ * @param options - Optional generation switches
  */
 export function generateFromDocument(
   doc: IRDocument,
   downloadedImages: DownloadedImage[] = [],
+  options: GenerationOptions = {},
 ): GeneratedComponent[] {
+  const ctx = createContext(doc.pages, downloadedImages, options);
   const components: GeneratedComponent[] = [];
 
   for (const page of doc.pages) {
-    components.push(...generateFromPage(page, downloadedImages));
+    components.push(...generatePage(page, ctx));
   }
 
   return components;
@@ -50,12 +94,141 @@ export function generateFromDocument(
 export function generateFromPage(
   page: IRPage,
   downloadedImages: DownloadedImage[] = [],
+  options: GenerationOptions = {},
 ): GeneratedComponent[] {
+  return generatePage(page, createContext([page], downloadedImages, options));
+}
+
+/**
+ * Generate DesignTokens.h from the document's Figma styles.
+ * Returns null when no node uses a style.
+ */
+export function generateDesignTokens(doc: IRDocument): GeneratedFile | null {
+  if (!doc.tokens || (doc.tokens.colours.length === 0 && doc.tokens.fonts.length === 0)) {
+    return null;
+  }
+  return {
+    fileName: DESIGN_TOKENS_FILE_NAME,
+    content: generateDesignTokensHeader(doc.tokens),
+  };
+}
+
+/**
+ * Generate FigmaBlur.h when any node has a layer or background blur.
+ */
+export function generateBlurHelper(doc: IRDocument): GeneratedFile | null {
+  if (!doc.pages.some(p => p.children.some(c => usesBlur(c)))) {
+    return null;
+  }
+  return {
+    fileName: BLUR_HELPER_FILE_NAME,
+    content: generateBlurHelperHeader(),
+  };
+}
+
+/**
+ * Generate FigmaSquircle.h when any rectangle or frame has smoothed corners.
+ */
+export function generateSquircleHelper(doc: IRDocument): GeneratedFile | null {
+  if (!doc.pages.some(p => p.children.some(usesCornerSmoothing))) {
+    return null;
+  }
+  return {
+    fileName: SQUIRCLE_HELPER_FILE_NAME,
+    content: generateSquircleHelperHeader(),
+  };
+}
+
+/**
+ * Generate FigmaClip.h when a child component reaches into a rounded frame's corners.
+ */
+export function generateClipHelper(doc: IRDocument): GeneratedFile | null {
+  if (!doc.pages.some(p => p.children.some(usesChildClipping))) {
+    return null;
+  }
+  return {
+    fileName: CLIP_HELPER_FILE_NAME,
+    content: generateClipHelperHeader(),
+  };
+}
+
+/**
+ * Generate FigmaBlend.h when blend modes are enabled and the document uses any.
+ */
+export function generateBlendHelper(doc: IRDocument, options: GenerationOptions = {}): GeneratedFile | null {
+  if (!options.blendModes || !doc.pages.some(p => p.children.some(usesBlendModes))) {
+    return null;
+  }
+  return {
+    fileName: BLEND_HELPER_FILE_NAME,
+    content: generateBlendHelperHeader(),
+  };
+}
+
+// ─── Generation Context ─────────────────────────────────────────────────────
+
+/**
+ * Shared state for one generation run, so that every instance of a main
+ * component resolves to the same class and each class is emitted once.
+ */
+export interface GenerationContext {
+  downloadedImages: DownloadedImage[];
+  // Composite blend modes offscreen
+  blendModes: boolean;
+  // Main components by node ID; variant IDs map to their component set
+  mainComponents: Map<string, IRFrameNode | IRComponentSetNode>;
+  // First instance seen for components whose main isn't in the file
+  remoteInstances: Map<string, IRFrameNode>;
+  // Class chosen for each nested frame node (instances resolve to shared classes)
+  classNames: Map<string, string>;
+  // Class emitted for each frame, main component or component set, by node ID
+  emitted: Map<string, string>;
+  // Class names already taken
+  takenNames: Set<string>;
+}
+
+function createContext(
+  pages: IRPage[],
+  downloadedImages: DownloadedImage[],
+  options: GenerationOptions = {},
+): GenerationContext {
+  const mainComponents = new Map<string, IRFrameNode | IRComponentSetNode>();
+
+  const visit = (node: IRNode) => {
+    if (isIRComponentSetNode(node)) {
+      for (const variant of node.children) {
+        mainComponents.set(variant.id, node);
+      }
+      return;
+    }
+    if (node.type === 'component') {
+      mainComponents.set(node.id, node);
+    }
+    if (hasIRChildren(node)) {
+      node.children.forEach(visit);
+    }
+  };
+  pages.forEach(page => page.children.forEach(visit));
+
+  return {
+    downloadedImages,
+    blendModes: options.blendModes ?? false,
+    mainComponents,
+    remoteInstances: new Map(),
+    classNames: new Map(),
+    emitted: new Map(),
+    takenNames: new Set(),
+  };
+}
+
+function generatePage(page: IRPage, ctx: GenerationContext): GeneratedComponent[] {
   const components: GeneratedComponent[] = [];
 
   for (const node of page.children) {
     if (isIRFrameNode(node)) {
-      components.push(...generateComponentHierarchy(node, downloadedImages));
+      components.push(...generateNestedComponent(node, ctx));
+    } else if (isIRComponentSetNode(node) && node.visible) {
+      components.push(...generateButtonOnce(node, ctx));
     }
   }
 
@@ -63,69 +236,255 @@ export function generateFromPage(
 }
 
 /**
- * Generate a component and all its nested component children recursively.
+ * The class emitted for a node, named after it (suffixed 2, 3, … when another
+ * node already has the name). isNew is false when the class was already emitted.
+ */
+function claimClass(node: IRNode, ctx: GenerationContext): { className: string; isNew: boolean } {
+  const emitted = ctx.emitted.get(node.id);
+  if (emitted) return { className: emitted, isNew: false };
+
+  const baseName = toClassName(node.name);
+  let className = baseName;
+  for (let i = 2; ctx.takenNames.has(className); i++) {
+    className = `${baseName}${i}`;
+  }
+  ctx.takenNames.add(className);
+  ctx.emitted.set(node.id, className);
+  return { className, isNew: true };
+}
+
+/**
+ * Generate a component and all its nested component children recursively,
+ * unless its class was already emitted.
+ * @returns The component's class name and the generated components
  */
 function generateComponentHierarchy(
   frame: IRFrameNode,
-  downloadedImages: DownloadedImage[] = [],
-): GeneratedComponent[] {
+  ctx: GenerationContext,
+): { className: string; components: GeneratedComponent[] } {
+  const { className, isNew } = claimClass(frame, ctx);
+  if (!isNew) return { className, components: [] };
+  ctx.classNames.set(frame.id, className);
+
   const components: GeneratedComponent[] = [];
   
-  // Generate components for nested frame children first (depth-first)
+  // Generate components for nested frames and component sets first (depth-first)
   for (const child of frame.children) {
-    if (child.visible && isIRFrameNode(child)) {
-      components.push(...generateComponentHierarchy(child, downloadedImages));
+    if (isIRComponentSetNode(child) && isIRNestedComponent(child)) {
+      components.push(...generateButtonOnce(child, ctx));
+      ctx.classNames.set(child.id, ctx.emitted.get(child.id)!);
+    } else if (isIRNestedComponent(child)) {
+      components.push(...generateNestedComponent(child, ctx));
     }
   }
   
   // Then generate this component
-  components.push(generateComponent(frame, downloadedImages));
+  components.push(generateComponent(frame, ctx.downloadedImages, ctx));
   
+  return { className, components };
+}
+
+/**
+ * Resolve the class for a nested frame and generate it if needed.
+ */
+function generateNestedComponent(frame: IRFrameNode, ctx: GenerationContext): GeneratedComponent[] {
+  if (frame.type === 'instance' && frame.componentId) {
+    return generateInstance(frame, frame.componentId, ctx);
+  }
+
+  return generateComponentHierarchy(frame, ctx).components;
+}
+
+/**
+ * Instances reuse the class of their main component. An instance whose art
+ * differs from the main component (text, colour or visibility overrides) gets
+ * a thin subclass that overrides paint(); layout and child members are inherited.
+ */
+function generateInstance(
+  instance: IRFrameNode,
+  componentId: string,
+  ctx: GenerationContext,
+): GeneratedComponent[] {
+  const main = ctx.mainComponents.get(componentId);
+
+  // Instance of a variant → the component set's button class
+  if (main && isIRComponentSetNode(main)) {
+    const components = generateButtonOnce(main, ctx);
+    ctx.classNames.set(instance.id, ctx.emitted.get(main.id)!);
+    return components;
+  }
+
+  // Main component not in this file (e.g. from a library): the first instance stands in for it
+  let source = main;
+  if (!source) {
+    source = ctx.remoteInstances.get(componentId) ?? instance;
+    ctx.remoteInstances.set(componentId, source);
+  }
+
+  const { className: baseClassName, components } = generateComponentHierarchy(source, ctx);
+
+  if (source === instance || !hasPaintOverrides(instance, source, ctx)) {
+    ctx.classNames.set(instance.id, baseClassName);
+    return components;
+  }
+
+  let className = toClassName(instance.name);
+  for (let i = 2; className === baseClassName || ctx.takenNames.has(className); i++) {
+    className = `${baseClassName}Override${i - 1}`;
+  }
+  ctx.takenNames.add(className);
+  ctx.classNames.set(instance.id, className);
+  components.push(generateOverrideComponent(instance, source, baseClassName, className, ctx));
+
   return components;
 }
 
+function generateButtonOnce(set: IRComponentSetNode, ctx: GenerationContext): GeneratedComponent[] {
+  const { className, isNew } = claimClass(set, ctx);
+  if (!isNew) return [];
+  return [generateButtonComponent(set, ctx.downloadedImages, className)];
+}
+
+/**
+ * Whether an instance paints differently from its main component's class,
+ * comparing the paint() bodies an override subclass and the class would emit.
+ */
+function hasPaintOverrides(instance: IRFrameNode, main: IRFrameNode, ctx: GenerationContext): boolean {
+  return generateOverridePaint(instance, main, ctx).paintBody !== generateOverridePaint(main, main, ctx).paintBody;
+}
+
+/**
+ * Paint an instance into the members of its main component's class. The
+ * main component painted against itself gives the class's own paint().
+ */
+function generateOverridePaint(instance: IRFrameNode, source: IRFrameNode, ctx: GenerationContext) {
+  const excludeIds = nestedComponentIds(instance);
+  const blendCaches = ctx.blendModes ? collectBlendCaches(instance, excludeIds) : new Map<string, string>();
+  const blurCaches = collectBlurCaches(instance, excludeIds);
+
+  // Layout bounds and child components are the base class's members
+  const pairs = matchInstanceNodes(instance, source);
+  const baseNested = collectNestedComponents(source, ctx);
+  const layoutBounds = membersForInstance(collectLayoutBounds(source, baseNested), pairs);
+  const nestedMembers = membersForInstance(new Map(baseNested.map(nc => [nc.node.id, nc.varName])), pairs);
+  const paintBody = generatePaintBody(instance, excludeIds, blendCaches, blurCaches, layoutBounds, nestedMembers);
+
+  return { excludeIds, blendCaches, blurCaches, paintBody };
+}
+
+function nestedComponentIds(frame: IRFrameNode): string[] {
+  return frame.children.filter(isIRNestedComponent).map(c => c.id);
+}
+
+/**
+ * The frame's child components (frames and component sets), with the member
+ * names and classes they are declared with.
+ */
+function collectNestedComponents(frame: IRFrameNode, ctx?: GenerationContext): NestedComponentInfo[] {
+  const varNames = collectMemberNames(frame);
+  return frame.children
+    .filter(isIRNestedComponent)
+    .map(c => ({
+      node: c,
+      varName: varNames.get(c.id)!,
+      className: ctx?.classNames.get(c.id) ?? toClassName(c.name),
+    }));
+}
+
+/**
+ * Pair each node of an instance with the node it mirrors in its main
+ * component. Instances keep their main component's children in order, so
+ * children are paired by position wherever both have the same number.
+ */
+function matchInstanceNodes(instance: IRNode, main: IRNode, pairs = new Map<string, string>()): Map<string, string> {
+  pairs.set(instance.id, main.id);
+  if (hasIRChildren(instance) && hasIRChildren(main) && instance.children.length === main.children.length) {
+    instance.children.forEach((child, i) => matchInstanceNodes(child, main.children[i], pairs));
+  }
+  return pairs;
+}
+
+/**
+ * Re-key a base class's members (by main component node ID) by the
+ * instance nodes they belong to.
+ */
+function membersForInstance(members: Map<string, string>, pairs: Map<string, string>): Map<string, string> {
+  const result = new Map<string, string>();
+  for (const [instanceId, mainId] of pairs) {
+    const member = members.get(mainId);
+    if (member) result.set(instanceId, member);
+  }
+  return result;
+}
+
+// ─── Component Generation ───────────────────────────────────────────────────
+
 /**
  * Generate a single JUCE Component from a frame.
- * Nested frame children are treated as child component members.
+ * Nested frame and component set children are treated as child component members.
  * 
  * @param frame - Frame node to generate from
  * @param downloadedImages - Optional array of downloaded images with file paths
+ * @param ctx - Optional generation context used to resolve shared instance classes
  */
 export function generateComponent(
   frame: IRFrameNode,
   downloadedImages: DownloadedImage[] = [],
+  ctx?: GenerationContext,
 ): GeneratedComponent {
-  const className = toClassName(frame.name);
+  const className = ctx?.classNames.get(frame.id) ?? toClassName(frame.name);
   const guardName = toGuardName(className);
   const headerFileName = `${className}.h`;
 
-  // Identify which children are nested components vs. inline-drawn nodes
-  const nestedComponents = frame.children
-    .filter(c => c.visible && isIRFrameNode(c))
-    .map(c => ({
-      node: c,
-      varName: toVariableName(c.name),
-      className: toClassName(c.name),
-    }));
+  // Member names must be unique: several instances often share one name
+  const varNames = collectMemberNames(frame);
+
+  // Identify which children are nested components (frames and component
+  // sets) vs. inline-drawn nodes
+  const nestedComponents = collectNestedComponents(frame, ctx);
+
+  // Blended nodes each cache their composited pixels in a member image
+  const nestedIds = nestedComponents.map(nc => nc.node.id);
+  const blendCaches = ctx?.blendModes ? collectBlendCaches(frame, nestedIds) : new Map<string, string>();
+  // Blurred nodes cache their blurred images until the next resize
+  const blurCaches = collectBlurCaches(frame, nestedIds);
+  // Inline-drawn children are painted where resized() lays them out
+  const layoutBounds = collectLayoutBounds(frame, nestedComponents);
 
-  const paintBody = generatePaintBody(frame, nestedComponents.map(nc => nc.node.id));
-  const resizedBody = generateResizedBody(frame, nestedComponents);
+  // Child components reaching into rounded corners draw through a clipping effect
+  const childClips = new Map(nestedComponents
+    .filter(nc => overlapsRoundedCorner(frame, nc.node))
+    .map(nc => [nc.varName, `${nc.varName}Clip`]));
+
+  const nestedMembers = new Map(nestedComponents.map(nc => [nc.node.id, nc.varName]));
+  const paintBody = generatePaintBody(frame, nestedIds, blendCaches, blurCaches, layoutBounds, nestedMembers);
+  const resizedBody = [
+    generateBlurInvalidation(blurCaches).join('\n'),
+    generateBlendInvalidation(blendCaches).join('\n'),
+    generateResizedBody(frame, nestedComponents, layoutBounds),
+    generateChildClipUpdate(frame, childClips).join('\n'),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+  const hitTestBody = generateHitTestBody(frame);
 
   // Collect child member info for header
   const childMembers = frame.children
     .filter(c => c.visible)
     .map(c => {
-      const varName = toVariableName(c.name);
+      const varName = varNames.get(c.id)!;
       
       // Check if this is a nested component
-      const isNestedComponent = nestedComponents.some(nc => nc.node.id === c.id);
-      if (isNestedComponent) {
-        const childClassName = toClassName(c.name);
+      const nested = nestedComponents.find(nc => nc.node.id === c.id);
+      if (nested) {
         return {
           varName,
           comment: `${c.name} — nested component`,
-          declaration: `${childClassName} ${varName}; // ${c.name} — nested component`,
-          constructorLines: [`addAndMakeVisible(${varName});`],
+          declaration: `${nested.className} ${varName}; // ${c.name} — nested component`,
+          constructorLines: [
+            `addAndMakeVisible(${varName});`,
+            ...(childClips.has(varName) ? [`${varName}.setComponentEffect(&${childClips.get(varName)});`] : []),
+          ],
         };
       }
       
@@ -148,8 +507,24 @@ export function generateComponent(
       };
     });
 
+  // Controls inside groups are laid out against the frame like its own children
+  const groupedControls = flattenGroups(frame.children)
+    .filter(c => !frame.children.includes(c))
+    .flatMap(c => {
+      const hint = detectComponentHint(c.name);
+      if (!hint) return [];
+      const varName = varNames.get(c.id)!;
+      return [{
+        varName,
+        comment: `${c.name} — ${hint.comment}`,
+        declaration: generateMemberDeclaration(varName, hint),
+        constructorLines: generateConstructorInit(varName, hint),
+      }];
+    });
+  childMembers.push(...groupedControls);
+
   // Collect unique image fills from the entire node tree (excluding nested components)
-  const imageFills = collectImageFills(frame, nestedComponents.map(nc => nc.node.id));
+  const imageFills = collectImageFills(frame, nestedIds);
   
   // Match image fills with downloaded images
   const imageMembers = imageFills.map(imageRef => {
@@ -161,19 +536,216 @@ export function generateComponent(
     };
   });
 
+  const layoutMembers = [...layoutBounds].map(([id, varName]) => {
+    const node = findNode(frame, id)!;
+    return {
+      varName,
+      comment: `${node.name} — layout bounds`,
+      declaration: `juce::Rectangle<float> ${varName}; // ${node.name} — layout bounds`,
+    };
+  });
+  const blendMembers = blendCacheDeclarations(frame, blendCaches);
+  const blurMembers = blurCacheDeclarations(frame, blurCaches);
+  const clipMembers = [...childClips].map(([childVar, varName]) => {
+    const nested = nestedComponents.find(nc => nc.varName === childVar)!;
+    return {
+      varName,
+      comment: `${nested.node.name} — rounded corner clip`,
+      declaration: `FigmaClip::ChildClip ${varName}; // ${nested.node.name} — rounded corner clip`,
+    };
+  });
+  const extraIncludes = [...helperIncludes(frame), ...(blendCaches.size > 0 ? [BLEND_HELPER_FILE_NAME] : [])];
+  // Instance override subclasses paint into the base class's layout and child components
+  const isNestedMember = (m: { varName: string }) => nestedComponents.some(nc => nc.varName === m.varName);
+
+  return {
+    className,
+    header: {
+      fileName: headerFileName,
+      content: generateHeader(
+        className,
+        guardName,
+        [...childMembers.filter(m => !isNestedMember(m)), ...blendMembers, ...blurMembers, ...clipMembers],
+        imageMembers,
+        hitTestBody !== null,
+        childClips.size > 0 ? [CLIP_HELPER_FILE_NAME] : [],
+        [...childMembers.filter(isNestedMember).map(m => ({ declaration: m.declaration! })), ...layoutMembers],
+      ),
+    },
+    implementation: {
+      fileName: `${className}.cpp`,
+      content: generateImplementation(
+        className,
+        headerFileName,
+        paintBody,
+        resizedBody,
+        imageMembers,
+        childMembers,
+        extraIncludes,
+        hitTestBody,
+      ),
+    },
+  };
+}
+
+/**
+ * Generate a subclass of an instance's shared class that repaints it with
+ * the instance's overridden art, laid out by the inherited resized().
+ * @param source The frame the shared class was generated from
+ */
+function generateOverrideComponent(
+  instance: IRFrameNode,
+  source: IRFrameNode,
+  baseClassName: string,
+  className: string,
+  ctx: GenerationContext,
+): GeneratedComponent {
+  const headerFileName = `${className}.h`;
+  const { excludeIds, blendCaches, blurCaches, paintBody } = generateOverridePaint(instance, source, ctx);
+  const resizedBody = [
+    generateBlurInvalidation(blurCaches).join('\n'),
+    generateBlendInvalidation(blendCaches).join('\n'),
+  ].filter(Boolean);
+
+  const imageMembers = collectImageFills(instance, excludeIds).map(imageRef => {
+    const downloaded = ctx.downloadedImages.find(img => img.imageRef === imageRef);
+    return {
+      varName: imageRefToMemberName(imageRef),
+      comment: `Image asset (ref: ${imageRef})`,
+      fileName: downloaded?.fileName,
+    };
+  });
+
+  return {
+    className,
+    header: {
+      fileName: headerFileName,
+      content: generateOverrideHeader(
+        className,
+        baseClassName,
+        instance.name,
+        imageMembers,
+        [...blendCacheDeclarations(instance, blendCaches), ...blurCacheDeclarations(instance, blurCaches)],
+      ),
+    },
+    implementation: {
+      fileName: `${className}.cpp`,
+      content: generateOverrideImplementation(
+        className,
+        headerFileName,
+        paintBody,
+        imageMembers,
+        [...helperIncludes(instance), ...(blendCaches.size > 0 ? [BLEND_HELPER_FILE_NAME] : [])],
+        resizedBody.length > 0 ? `${baseClassName}::resized();\n${resizedBody.join('\n\n')}` : '',
+      ),
+    },
+  };
+}
+
+/**
+ * Generate a juce::Button subclass from a component set.
+ * paintButton() picks the variant matching the button's enabled, hover,
+ * pressed and toggle state.
+ *
+ * @param set - Component set node whose children are the variants
+ * @param downloadedImages - Optional array of downloaded images with file paths
+ * @param className - Class name, when the set's own name is taken
+ */
+export function generateButtonComponent(
+  set: IRComponentSetNode,
+  downloadedImages: DownloadedImage[] = [],
+  className = toClassName(set.name),
+): GeneratedComponent {
+  const headerFileName = `${className}.h`;
+  const { methods, paintButtonBody, isToggle, blurCaches } = generateButtonVariants(set);
+
+  // Variants are painted inline, so every image in the set is a member
+  const imageFills = new Set<string>();
+  for (const method of methods) {
+    collectImageFills(method.variant, []).forEach(ref => imageFills.add(ref));
+  }
+  const imageMembers = Array.from(imageFills).map(imageRef => {
+    const downloaded = downloadedImages.find(img => img.imageRef === imageRef);
+    return {
+      varName: imageRefToMemberName(imageRef),
+      comment: `Image asset (ref: ${imageRef})`,
+      fileName: downloaded?.fileName,
+    };
+  });
+
   return {
     className,
     header: {
       fileName: headerFileName,
-      content: generateHeader(className, guardName, childMembers, imageMembers),
+      content: generateButtonHeader(className, methods, imageMembers, blurCacheDeclarations(set, blurCaches)),
     },
     implementation: {
       fileName: `${className}.cpp`,
-      content: generateImplementation(className, headerFileName, paintBody, resizedBody, imageMembers, childMembers),
+      content: generateButtonImplementation(
+        className,
+        headerFileName,
+        escapeCppString(set.name),
+        paintButtonBody,
+        methods,
+        isToggle,
+        imageMembers,
+        helperIncludes(set),
+        generateBlurInvalidation(blurCaches).join('\n'),
+      ),
     },
   };
 }
 
+function helperIncludes(node: IRNode): string[] {
+  return [
+    ...(usesDesignTokens(node) ? [DESIGN_TOKENS_FILE_NAME] : []),
+    ...(usesBlur(node) ? [BLUR_HELPER_FILE_NAME] : []),
+    ...(usesCornerSmoothing(node) ? [SQUIRCLE_HELPER_FILE_NAME] : []),
+  ];
+}
+
+/**
+ * Member image declarations for a class's blend caches.
+ */
+function blendCacheDeclarations(root: IRNode, caches: Map<string, string>) {
+  return [...caches].map(([id, varName]) => {
+    const node = findNode(root, id)!;
+    return {
+      varName,
+      comment: `${node.name} — ${node.blendMode} blend cache`,
+      declaration: `juce::Image ${varName}; // ${node.name} — ${node.blendMode} blend cache`,
+    };
+  });
+}
+
+/**
+ * Member image declarations for a class's blur caches.
+ */
+function blurCacheDeclarations(root: IRNode, caches: Map<string, BlurCache>) {
+  return [...caches].flatMap(([id, cache]) => {
+    const node = findNode(root, id)!;
+    const member = (varName: string, kind: string) => ({
+      varName,
+      comment: `${node.name} — ${kind} blur cache`,
+      declaration: `juce::Image ${varName}; // ${node.name} — ${kind} blur cache`,
+    });
+    return [
+      ...(cache.layer ? [member(cache.layer, 'layer')] : []),
+      ...(cache.background ? [member(cache.background, 'background')] : []),
+    ];
+  });
+}
+
+function findNode(node: IRNode, id: string): IRNode | undefined {
+  if (node.id === id) return node;
+  if (!hasIRChildren(node)) return undefined;
+  for (const child of node.children) {
+    const found = findNode(child, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
 /**
  * Recursively collect all unique image fill references from a node tree,
  * excluding nodes that are nested components.
@@ -186,12 +758,17 @@ function collectImageFills(node: IRNode, excludeNodeIds: string[]): string[] {
     return [];
   }
   
-  // Collect from current node
+  // Collect from current node (image strokes need the image too)
   for (const fill of node.fills) {
     if (fill.type === 'image' && fill.visible) {
       imageRefs.add(fill.imageRef);
     }
   }
+  for (const stroke of node.strokes) {
+    if (stroke.paint?.type === 'image' && stroke.visible) {
+      imageRefs.add(stroke.paint.imageRef);
+    }
+  }
   
   // Recursively collect from children (but skip nested components)
   if (hasIRChildren(node)) {
@@ -2,6 +2,7 @@
 
 import type {
   IRNode,
+  IRBounds,
   IRFrameNode,
   IRRectangleNode,
   IREllipseNode,
@@ -12,10 +13,11 @@ import type {
   IRStroke,
   IRDropShadow,
   IRInnerShadow,
-  IRBlur,
   IRCornerRadius,
+  IRTransform,
 } from '../ir/types.js';
 import {
+  hasIRChildren,
   isIRFrameNode,
   isIRGroupNode,
   isIRRectangleNode,
@@ -23,9 +25,20 @@ import {
   isIRTextNode,
   isIRVectorNode,
 } from '../ir/types.js';
-import { generateFillCode, generateColourWithOpacity, generateColour } from './colour.js';
+import { generateFillCode, generateStrokePaintCode, generateColour, fillsBoundsItself } from './colour.js';
 import { generateTextDraw } from './text.js';
-import { generatePathDraw } from './path.js';
+import { generatePathDraw, svgToJucePath, generateStrokePath, needsStrokePath } from './path.js';
+import { hasLinearTransform, composeTransforms, generateTransformExpr } from './transform.js';
+import { generateBlendedPaint } from './blend.js';
+import {
+  findBlur,
+  usesBlur,
+  blurExtent,
+  generateLayerBlurPaint,
+  generateBackgroundBlurPaint,
+  type BlurCache,
+} from './blur.js';
+import { isSmoothed, generateSquirclePath } from './squircle.js';
 import { toFloat } from '../utils/math.js';
 
 // ─── Public API ─────────────────────────────────────────────────────────────
@@ -35,18 +48,40 @@ import { toFloat } from '../utils/math.js';
  * Returns lines of C++ code (without the method signature/braces).
  * @param root The root frame node
  * @param excludeChildIds IDs of child nodes that are nested components (don't draw them inline)
+ * @param blendCaches Member images for nodes composited with their blend mode, by node ID
+ * @param blurCaches Member images for blurred nodes, by node ID (uncached blurs re-render every paint)
+ * @param layoutBounds Member rectangles laid out by resized(), by node ID (others draw at their Figma bounds)
+ * @param nestedMembers Member names of nested components, by node ID, for drawing their background blurs
  */
-export function generatePaintBody(root: IRFrameNode, excludeChildIds: string[] = []): string {
+export function generatePaintBody(
+  root: IRFrameNode,
+  excludeChildIds: string[] = [],
+  blendCaches: Map<string, string> = new Map(),
+  blurCaches: Map<string, BlurCache> = new Map(),
+  layoutBounds: Map<string, string> = new Map(),
+  nestedMembers: Map<string, string> = new Map(),
+): string {
   const lines: string[] = [];
 
   // Draw the root frame's own background
   lines.push(...generateNodePaint(root, 'getLocalBounds().toFloat()'));
 
-  // Draw children recursively (skip nested components)
-  for (const child of root.children) {
-    if (!excludeChildIds.includes(child.id)) {
-      lines.push(...generateChildPaint(child, excludeChildIds));
-    }
+  // Draw children recursively (skip nested components). The component
+  // bounds already clip square frames; rounded ones need a clip path.
+  const needsBackdrop = blendCaches.size > 0 || root.children.some(c => usesBlur(c, 'backgroundBlur'));
+  const scope = { layoutBounds, blendCaches, blurCaches, nestedMembers, backdrop: needsBackdrop ? [...lines] : undefined };
+  const childLines = generateChildrenPaint(root.children, excludeChildIds, undefined, scope);
+  if (root.clipsContent && hasRounding(root.cornerRadius)) {
+    lines.push(...wrapInFrameClip(root, 'getLocalBounds().toFloat()', childLines));
+  } else {
+    lines.push(...childLines);
+  }
+
+  // The component's own layer blur blurs everything it draws (child
+  // components draw themselves afterwards, unblurred)
+  const layerBlur = findBlur(root, 'layerBlur');
+  if (layerBlur && lines.length > 0) {
+    return generateLayerBlurPaint(layerBlur, blurCaches.get(root.id)?.layer, lines).join('\n');
   }
 
   return lines.join('\n');
@@ -54,52 +89,206 @@ export function generatePaintBody(root: IRFrameNode, excludeChildIds: string[] =
 
 // ─── Per-node Paint Generation ──────────────────────────────────────────────
 
-function generateChildPaint(node: IRNode, excludeChildIds: string[] = []): string[] {
+/**
+ * Drawing state: layout members for nodes placed by resized(), cache members
+ * for blended and blurred nodes, nested component members, the paint code
+ * for everything drawn beneath the nodes about to be painted, in component
+ * coordinates (tracked only when a blend or background blur needs it), and
+ * the transforms enclosing containers have added to g, outermost first.
+ */
+interface PaintScope {
+  layoutBounds: Map<string, string>;
+  blendCaches: Map<string, string>;
+  blurCaches: Map<string, BlurCache>;
+  nestedMembers?: Map<string, string>;
+  backdrop?: string[];
+  transforms?: string[];
+}
+
+function generateChildrenPaint(
+  children: IRNode[],
+  excludeChildIds: string[],
+  parentTransform?: IRTransform,
+  scope?: PaintScope,
+): string[] {
+  const lines: string[] = [];
+
+  for (const child of children) {
+    if (child.isMask) {
+      const masked = children.filter(c => c.maskedBy === child.id);
+      lines.push(...generateMaskedPaint(child, masked, excludeChildIds, parentTransform, extendBackdrop(scope, lines)));
+    } else if (excludeChildIds.includes(child.id)) {
+      lines.push(...generateNestedBackgroundBlur(child, extendBackdrop(scope, lines)));
+    } else if (!child.maskedBy) {
+      lines.push(...generateOffscreenChildPaint(child, excludeChildIds, parentTransform, extendBackdrop(scope, lines)));
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * A nested component can't see what its parent drew beneath it, so the
+ * parent draws the component's blurred backdrop inside the component's shape.
+ */
+function generateNestedBackgroundBlur(node: IRNode, scope?: PaintScope): string[] {
+  const backgroundBlur = findBlur(node, 'backgroundBlur');
+  const varName = scope?.nestedMembers?.get(node.id);
+  if (!node.visible || !backgroundBlur || !varName || !scope?.backdrop) return [];
+
+  const clipLines = [
+    ...generateShapePath(node, 'clip', `${varName}.getBounds().toFloat()`),
+    `clip.applyTransform(${varName}.getTransform());`,
+  ];
+  return [
+    `// ${node.name} (child component)`,
+    ...generateBackgroundBlurPaint(backgroundBlur, scope.blurCaches.get(node.id)?.background, scope.backdrop, clipLines),
+  ];
+}
+
+function extendBackdrop(scope: PaintScope | undefined, lines: string[]): PaintScope | undefined {
+  if (!scope?.backdrop) return scope;
+  const transforms = scope.transforms ?? [];
+  const componentLines = transforms.length > 0 && lines.length > 0
+    ? [`g.saveState();`, ...transforms.map(t => `g.addTransform(${t});`), ...lines, `g.restoreState();`]
+    : lines;
+  return { ...scope, backdrop: [...scope.backdrop, ...componentLines] };
+}
+
+/**
+ * The transform from the scope's drawing coordinates to the component's, if any.
+ */
+function scopeTransform(scope: PaintScope | undefined): string | undefined {
+  const transforms = scope?.transforms ?? [];
+  if (transforms.length === 0) return undefined;
+  return transforms.slice(1).reduce((outer, t) => `${t}.followedBy(${outer})`, transforms[0]);
+}
+
+/**
+ * Paint a child, rendering it through an image when it has a layer blur and
+ * compositing it against the backdrop when it has a blend mode cache.
+ */
+function generateOffscreenChildPaint(
+  node: IRNode,
+  excludeChildIds: string[],
+  parentTransform?: IRTransform,
+  scope?: PaintScope,
+): string[] {
+  let lines = generateChildPaint(node, excludeChildIds, parentTransform, scope);
+  if (lines.length === 0) return lines;
+
+  const layerBlur = findBlur(node, 'layerBlur');
+  if (layerBlur) {
+    const area = layerBlurArea(node, scope?.layoutBounds.get(node.id));
+    lines = generateLayerBlurPaint(layerBlur, scope?.blurCaches.get(node.id)?.layer, lines, area);
+  }
+
+  const blendVar = scope?.blendCaches.get(node.id);
+  if (blendVar && scope?.backdrop) {
+    lines = generateBlendedPaint(node, blendVar, scope.backdrop, lines, scopeTransform(scope));
+  }
+
+  return lines;
+}
+
+function generateChildPaint(
+  node: IRNode,
+  excludeChildIds: string[] = [],
+  parentTransform?: IRTransform,
+  scope?: PaintScope,
+): string[] {
   if (!node.visible) return [];
 
   const lines: string[] = [];
-  const boundsExpr = nodeBoundsExpr(node);
+  const layoutVar = scope?.layoutBounds.get(node.id);
+  const boundsExpr = layoutVar ?? nodeBoundsExpr(node);
 
-  // Apply opacity via saveState/restoreState if needed
+  // Containers composite their children in a transparency layer so
+  // overlapping children don't double up; leaves can fade each primitive.
   const needsOpacity = node.opacity < 1;
-  if (needsOpacity) {
-    lines.push(`g.saveState();`);
-    lines.push(`g.reduceClipRegion(${boundsExpr}.toNearestInt());`);
-    lines.push(`g.setOpacity(${toFloat(node.opacity)});`);
+  const usesLayer = needsOpacity && hasIRChildren(node) && node.children.some(c => c.visible);
+  const opacityStart: string[] = [];
+  if (usesLayer) {
+    opacityStart.push(`g.beginTransparencyLayer(${toFloat(node.opacity)});`);
+  } else if (needsOpacity) {
+    opacityStart.push(`g.saveState();`);
+    opacityStart.push(`g.reduceClipRegion(${boundsExpr}.toNearestInt());`);
+    opacityStart.push(`g.setOpacity(${toFloat(node.opacity)});`);
+  }
+  const opacityEnd = usesLayer ? [`g.endTransparencyLayer();`] : needsOpacity ? [`g.restoreState();`] : [];
+  lines.push(...opacityStart);
+
+  // Rotated/skewed nodes draw their unrotated shape, transformed about its centre
+  const transform = composeTransforms(parentTransform, node.transform);
+  const isTransformed = hasLinearTransform(transform);
+  const placement = nodePlacement(node, isTransformed, layoutVar);
+  const shapeBoundsExpr = placement.bounds;
+  const shapeLines: string[] = [];
+
+  // Background blur: the blurred backdrop inside the shape, beneath the fills.
+  // Drawn untransformed, with the clip path transformed instead.
+  const backgroundBlur = findBlur(node, 'backgroundBlur');
+  if (backgroundBlur && scope?.backdrop) {
+    const clipLines = generateShapePath(node, 'clip', shapeBoundsExpr);
+    if (isTransformed) {
+      clipLines.push(`clip.applyTransform(${generateTransformExpr(transform, placement.centreX, placement.centreY)});`);
+    }
+    const cacheVar = scope.blurCaches.get(node.id)?.background;
+    lines.push(...generateBackgroundBlurPaint(backgroundBlur, cacheVar, scope.backdrop, clipLines, scopeTransform(scope)));
   }
 
   // Drop shadows (must paint before the shape)
-  lines.push(...generateDropShadows(node));
+  shapeLines.push(...generateDropShadows(node, placement));
 
-  // Node-specific drawing
-  lines.push(...generateNodePaint(node, boundsExpr));
+  // Node-specific drawing. Laid-out vectors are fitted to their layout bounds.
+  shapeLines.push(...generateNodePaint(node, shapeBoundsExpr, layoutVar ? placement.local : undefined));
 
   // Inner shadows (after fills, inside the shape)
-  lines.push(...generateInnerShadows(node, boundsExpr));
-
-  // Blur effects (comment placeholders)
-  lines.push(...generateBlurEffects(node));
+  shapeLines.push(...generateInnerShadows(node, placement));
 
   // Strokes
-  lines.push(...generateStrokes(node, boundsExpr));
+  shapeLines.push(...generateStrokes(node, shapeBoundsExpr));
 
-  // Recurse into children (skip nested components)
+  if (isTransformed && shapeLines.length > 0) {
+    lines.push(`g.saveState();`);
+    lines.push(`g.addTransform(${generateTransformExpr(transform, placement.centreX, placement.centreY)});`);
+    lines.push(...shapeLines);
+    lines.push(`g.restoreState();`);
+  } else {
+    lines.push(...shapeLines);
+  }
+
+  // Recurse into children (skip nested components). Child bounds are already
+  // axis-aligned, so each child applies the combined transform itself. Groups
+  // have no coordinate space of their own: their children's transforms are
+  // relative to the group's parent and already include the group's rotation.
+  // Blended descendants see this node's own shape in their backdrop.
+  // Children of a laid-out node are mapped from its Figma frame onto its layout
+  // bounds, unless resized() lays them out too.
   if (isIRFrameNode(node) || isIRGroupNode(node)) {
-    for (const child of node.children) {
-      if (!excludeChildIds.includes(child.id)) {
-        lines.push(...generateChildPaint(child, excludeChildIds));
-      }
+    const childTransform = isIRGroupNode(node) ? parentTransform : transform;
+    const mapsChildren = layoutVar !== undefined && !node.children.some(c => scope?.layoutBounds.has(c.id));
+    let childScope = extendBackdrop(scope, [...lines, ...opacityEnd]);
+    if (childScope && mapsChildren) {
+      childScope = { ...childScope, transforms: [...(childScope.transforms ?? []), placement.local] };
+    }
+    let childLines = generateChildrenPaint(node.children, excludeChildIds, childTransform, childScope);
+    if (mapsChildren && childLines.length > 0) {
+      childLines = [`g.saveState();`, `g.addTransform(${placement.local});`, ...childLines, `g.restoreState();`];
+    }
+    if (isIRFrameNode(node) && node.clipsContent) {
+      lines.push(...wrapInFrameClip(node, shapeBoundsExpr, childLines, transform, placement));
+    } else {
+      lines.push(...childLines);
     }
   }
 
-  if (needsOpacity) {
-    lines.push(`g.restoreState();`);
-  }
+  lines.push(...opacityEnd);
 
   return lines;
 }
 
-function generateNodePaint(node: IRNode, boundsExpr: string): string[] {
+function generateNodePaint(node: IRNode, boundsExpr: string, vectorPlacement?: string): string[] {
   const lines: string[] = [];
 
   if (isIRRectangleNode(node) || isIRFrameNode(node)) {
@@ -109,7 +298,7 @@ function generateNodePaint(node: IRNode, boundsExpr: string): string[] {
   } else if (isIRTextNode(node)) {
     lines.push(...generateTextDraw(node, boundsExpr));
   } else if (isIRVectorNode(node)) {
-    lines.push(...generatePathDraw(node, boundsExpr));
+    lines.push(...generatePathDraw(node, boundsExpr, vectorPlacement));
   }
 
   return lines;
@@ -129,10 +318,23 @@ function generateRectPaint(
     const fillCode = generateFillCode(fill, boundsExpr);
     if (!fillCode) continue;
 
+    if (fillsBoundsItself(fill)) {
+      lines.push(...generateShapeClippedFill(node, boundsExpr, fillCode));
+      continue;
+    }
+
     lines.push(fillCode.trimEnd());
 
     const cr = node.cornerRadius;
-    if (hasRounding(cr)) {
+    if (isSmoothed(cr)) {
+      lines.push(
+        `{`,
+        `    juce::Path p;`,
+        `    ${generateSquirclePath('p', boundsExpr, cr)}`,
+        `    g.fillPath(p);`,
+        `}`,
+      );
+    } else if (hasRounding(cr)) {
       if (cr.isUniform) {
         lines.push(`g.fillRoundedRectangle(${boundsExpr}, ${toFloat(cr.topLeft)});`);
       } else {
@@ -174,17 +376,63 @@ function perCornerRoundedRect(boundsExpr: string, cr: IRCornerRadius): string[]
   ];
 }
 
+/**
+ * Run fill code that paints the whole bounds, clipped to the node's shape.
+ */
+function generateShapeClippedFill(node: IRNode, boundsExpr: string, fillCode: string): string[] {
+  return [
+    `g.saveState();`,
+    `{`,
+    `    juce::Path clip;`,
+    ...generateShapePath(node, 'clip', boundsExpr).map(l => `    ${l}`),
+    `    g.reduceClipRegion(clip);`,
+    `}`,
+    ...fillCode.trimEnd().split('\n'),
+    `g.restoreState();`,
+  ];
+}
+
 // ─── Ellipse fill ───────────────────────────────────────────────────────────
 
 function generateEllipsePaint(node: IREllipseNode, boundsExpr: string): string[] {
   const lines: string[] = [];
 
+  // Arcs, pies and donuts are filled as a pie segment path
+  const segment = pieSegmentArgs(node);
+  if (segment) {
+    const fillLines: string[] = [];
+    for (const fill of node.fills) {
+      if (!fill.visible) continue;
+
+      const fillCode = generateFillCode(fill, boundsExpr);
+      if (!fillCode) continue;
+      if (fillsBoundsItself(fill)) {
+        fillLines.push(`g.saveState();`, `g.reduceClipRegion(arc);`, ...fillCode.trimEnd().split('\n'), `g.restoreState();`);
+      } else {
+        fillLines.push(...fillCode.trimEnd().split('\n'), `g.fillPath(arc);`);
+      }
+    }
+    if (fillLines.length === 0) return [];
+    return [
+      `{`,
+      `    juce::Path arc;`,
+      `    arc.addPieSegment(${boundsExpr}, ${segment});`,
+      ...fillLines.map(l => `    ${l}`),
+      `}`,
+    ];
+  }
+
   for (const fill of node.fills) {
     if (!fill.visible) continue;
 
     const fillCode = generateFillCode(fill, boundsExpr);
     if (!fillCode) continue;
 
+    if (fillsBoundsItself(fill)) {
+      lines.push(...generateShapeClippedFill(node, boundsExpr, fillCode));
+      continue;
+    }
+
     lines.push(fillCode.trimEnd());
     lines.push(`g.fillEllipse(${boundsExpr});`);
   }
@@ -192,18 +440,204 @@ function generateEllipsePaint(node: IREllipseNode, boundsExpr: string): string[]
   return lines;
 }
 
+// ─── Masks ──────────────────────────────────────────────────────────────────
+
+/**
+ * Draw the siblings clipped by a mask node. The mask itself is not drawn;
+ * its shape becomes the clip region. Masked child components draw themselves
+ * unclipped, which the generated code points out.
+ */
+function generateMaskedPaint(
+  mask: IRNode,
+  masked: IRNode[],
+  excludeChildIds: string[],
+  parentTransform?: IRTransform,
+  scope?: PaintScope,
+): string[] {
+  const maskedLines: string[] = [];
+  const unmasked: string[] = [];
+  for (const node of masked) {
+    if (!excludeChildIds.includes(node.id)) {
+      maskedLines.push(...generateOffscreenChildPaint(node, excludeChildIds, parentTransform, extendBackdrop(scope, maskedLines)));
+    } else if (node.visible) {
+      unmasked.push(`// ${mask.name} does not mask child component ${node.name}: it is drawn unmasked`);
+    }
+  }
+  if (maskedLines.length === 0) return unmasked;
+
+  const lines: string[] = [...unmasked];
+  lines.push(`g.saveState();`);
+  lines.push(`{`);
+  lines.push(`    juce::Path mask;`);
+  lines.push(...generateMaskPath(mask, parentTransform, scope?.layoutBounds.get(mask.id)).map(l => `    ${l}`));
+  lines.push(`    g.reduceClipRegion(mask);`);
+  lines.push(`}`);
+  lines.push(...maskedLines);
+  lines.push(`g.restoreState();`);
+  return lines;
+}
+
+function generateMaskPath(mask: IRNode, parentTransform?: IRTransform, layoutVar?: string): string[] {
+  const lines: string[] = [];
+  const transform = composeTransforms(parentTransform, mask.transform);
+  const isTransformed = hasLinearTransform(transform);
+  const placement = nodePlacement(mask, isTransformed, layoutVar);
+
+  lines.push(...generateOutlinePath(mask, 'mask', placement));
+
+  if (isTransformed) {
+    lines.push(`mask.applyTransform(${generateTransformExpr(transform, placement.centreX, placement.centreY)});`);
+  }
+
+  return lines;
+}
+
+/**
+ * Add a node's ellipse, (rounded) rectangle or bounding box to a juce::Path,
+ * grown (or shrunk, when negative) by spread on every side.
+ */
+function generateShapePath(node: IRNode, pathVar: string, boundsExpr: string, spread = 0): string[] {
+  const area = spread !== 0 ? `${boundsExpr}.expanded(${toFloat(spread)})` : boundsExpr;
+
+  if (isIREllipseNode(node)) {
+    const segment = pieSegmentArgs(node);
+    return [segment ? `${pathVar}.addPieSegment(${area}, ${segment});` : `${pathVar}.addEllipse(${area});`];
+  }
+
+  if ((isIRRectangleNode(node) || isIRFrameNode(node)) && hasRounding(node.cornerRadius)) {
+    const cr = node.cornerRadius;
+    if (isSmoothed(cr)) {
+      return [generateSquirclePath(pathVar, area, cr, spread)];
+    }
+    const radius = (r: number) => Math.max(0, r + spread);
+    if (cr.isUniform) {
+      return [`${pathVar}.addRoundedRectangle(${area}, ${toFloat(radius(cr.topLeft))});`];
+    }
+    const maxR = toFloat(radius(Math.max(cr.topLeft, cr.topRight, cr.bottomLeft, cr.bottomRight)));
+    const rc = `${pathVar}Bounds`;
+    const indent = ' '.repeat(pathVar.length + 21);
+    return [
+      `auto ${rc} = ${area};`,
+      `${pathVar}.addRoundedRectangle(${rc}.getX(), ${rc}.getY(), ${rc}.getWidth(), ${rc}.getHeight(), ${maxR}, ${maxR},`,
+      `${indent}${cr.topLeft > 0}, ${cr.topRight > 0}, ${cr.bottomLeft > 0}, ${cr.bottomRight > 0});`,
+    ];
+  }
+
+  return [`${pathVar}.addRectangle(${area});`];
+}
+
+/**
+ * Build a node's actual outline into a juce::Path: its vector geometry
+ * (placed at the node's position) or its shape. Vector outlines are scaled
+ * about their centre for spread.
+ */
+function generateOutlinePath(node: IRNode, pathVar: string, placement: NodePlacement, spread = 0): string[] {
+  if (!isIRVectorNode(node) || node.paths.length === 0) {
+    return generateShapePath(node, pathVar, placement.bounds, spread);
+  }
+
+  // Vector geometry is in the node's local space
+  const lines: string[] = [];
+  for (const pathData of node.paths) {
+    lines.push(...svgToJucePath(pathData, pathVar));
+  }
+  if (node.paths[0].windingRule === 'evenodd') {
+    lines.push(`${pathVar}.setUsingNonZeroWinding(false);`);
+  }
+  lines.push(`${pathVar}.applyTransform(${placement.local});`);
+
+  const { width, height } = placement;
+  if (spread !== 0 && width > 0 && height > 0) {
+    const sx = Math.max(0, (width + 2 * spread) / width);
+    const sy = Math.max(0, (height + 2 * spread) / height);
+    lines.push(`${pathVar}.applyTransform(juce::AffineTransform::scale(${toFloat(sx)}, ${toFloat(sy)}, ${placement.centreX}, ${placement.centreY}));`);
+  }
+
+  return lines;
+}
+
+// ─── Content Clipping ───────────────────────────────────────────────────────
+
+/**
+ * Generate a hitTest() body for a rounded frame that clips its content, so
+ * clicks in the transparent corners fall through. Returns null when the
+ * default rectangular hit test already matches.
+ */
+export function generateHitTestBody(root: IRFrameNode): string | null {
+  if (!root.clipsContent || !hasRounding(root.cornerRadius)) return null;
+
+  return [
+    `juce::Path clip;`,
+    ...generateShapePath(root, 'clip', 'getLocalBounds().toFloat()'),
+    `return clip.contains((float) x, (float) y);`,
+  ].join('\n');
+}
+
+/**
+ * resized() lines that clip child components to the component's rounded
+ * bounds, through their FigmaClip::ChildClip effects (member name by child
+ * member name).
+ */
+export function generateChildClipUpdate(root: IRFrameNode, clips: Map<string, string>): string[] {
+  if (clips.size === 0) return [];
+
+  return [
+    `// Child components are clipped to the rounded corners`,
+    `{`,
+    `    juce::Path clip;`,
+    ...generateShapePath(root, 'clip', 'getLocalBounds().toFloat()').map(l => `    ${l}`),
+    ...[...clips].map(([varName, clipVar]) => `    ${clipVar}.update(clip, ${varName});`),
+    `}`,
+  ];
+}
+
+/**
+ * Wrap a frame's child drawing in a clip to the frame's (rounded) bounds,
+ * as Figma does for frames with clipsContent.
+ */
+function wrapInFrameClip(
+  frame: IRFrameNode,
+  boundsExpr: string,
+  childLines: string[],
+  transform?: IRTransform,
+  placement?: NodePlacement,
+): string[] {
+  if (childLines.length === 0) return [];
+
+  const lines: string[] = [`g.saveState();`];
+  if (!hasRounding(frame.cornerRadius) && !hasLinearTransform(transform)) {
+    lines.push(`g.reduceClipRegion(${boundsExpr}.toNearestInt());`);
+  } else {
+    lines.push(`{`);
+    lines.push(`    juce::Path clip;`);
+    lines.push(...generateShapePath(frame, 'clip', boundsExpr).map(l => `    ${l}`));
+    if (hasLinearTransform(transform)) {
+      const { centreX, centreY } = placement ?? nodePlacement(frame, true);
+      lines.push(`    clip.applyTransform(${generateTransformExpr(transform, centreX, centreY)});`);
+    }
+    lines.push(`    g.reduceClipRegion(clip);`);
+    lines.push(`}`);
+  }
+  lines.push(...childLines);
+  lines.push(`g.restoreState();`);
+  return lines;
+}
+
 // ─── Drop Shadows ───────────────────────────────────────────────────────────
 
-function generateDropShadows(node: IRNode): string[] {
+function generateDropShadows(node: IRNode, placement: NodePlacement): string[] {
   const lines: string[] = [];
 
   for (const effect of node.effects) {
     if (effect.type !== 'dropShadow' || !effect.visible) continue;
     const shadow = effect as IRDropShadow;
 
+    // Shadow of the node's outline, grown by the spread
     lines.push(`{`);
+    lines.push(`    juce::Path shadowPath;`);
+    lines.push(...generateOutlinePath(node, 'shadowPath', placement, shadow.spread).map(l => `    ${l}`));
     lines.push(`    juce::DropShadow shadow(${generateColour(shadow.color)}, ${Math.round(shadow.radius)}, juce::Point<int>(${Math.round(shadow.offset.x)}, ${Math.round(shadow.offset.y)}));`);
-    lines.push(`    shadow.drawForRectangle(g, ${nodeBoundsExpr(node)}.toNearestInt());`);
+    lines.push(`    shadow.drawForPath(g, shadowPath);`);
     lines.push(`}`);
   }
 
@@ -212,23 +646,37 @@ function generateDropShadows(node: IRNode): string[] {
 
 // ─── Inner Shadows ──────────────────────────────────────────────────────────
 
-function generateInnerShadows(node: IRNode, boundsExpr: string): string[] {
+/**
+ * JUCE has no inner shadows: cast a drop shadow from the inverse of the
+ * shape (a frame around it, with the shape shrunk by the spread as the
+ * hole), clipped to the shape.
+ */
+function generateInnerShadows(node: IRNode, placement: NodePlacement): string[] {
   const lines: string[] = [];
 
   for (const effect of node.effects) {
     if (effect.type !== 'innerShadow' || !effect.visible) continue;
     const shadow = effect as IRInnerShadow;
+    const margin = Math.ceil(shadow.radius + Math.abs(shadow.offset.x) + Math.abs(shadow.offset.y) + Math.abs(shadow.spread)) + 1;
 
-    // JUCE doesn't have built-in inner shadow support.
-    // Technique: draw a larger shadow path with exclusion, clipped to the node bounds.
     lines.push(`{`);
     lines.push(`    // Inner shadow: offset(${Math.round(shadow.offset.x)}, ${Math.round(shadow.offset.y)}) blur ${Math.round(shadow.radius)}`);
+    lines.push(`    juce::Path shape;`);
+    lines.push(...generateOutlinePath(node, 'shape', placement).map(l => `    ${l}`));
+    lines.push(`    juce::Path inverse;`);
+    lines.push(`    inverse.addRectangle(shape.getBounds().expanded(${toFloat(margin)}));`);
+    if (shadow.spread !== 0) {
+      lines.push(`    juce::Path hole;`);
+      lines.push(...generateOutlinePath(node, 'hole', placement, -shadow.spread).map(l => `    ${l}`));
+      lines.push(`    inverse.addPath(hole);`);
+    } else {
+      lines.push(`    inverse.addPath(shape);`);
+    }
+    lines.push(`    inverse.setUsingNonZeroWinding(false);`);
     lines.push(`    g.saveState();`);
-    lines.push(`    g.reduceClipRegion(${boundsExpr}.toNearestInt());`);
+    lines.push(`    g.reduceClipRegion(shape);`);
     lines.push(`    juce::DropShadow innerShadow(${generateColour(shadow.color)}, ${Math.round(shadow.radius)}, juce::Point<int>(${Math.round(shadow.offset.x)}, ${Math.round(shadow.offset.y)}));`);
-    lines.push(`    // Draw shadow around an inverted region to create inner shadow effect`);
-    lines.push(`    auto outerRect = ${boundsExpr}.expanded(${Math.round(shadow.radius + Math.abs(shadow.offset.x) + Math.abs(shadow.offset.y))}).toNearestInt();`);
-    lines.push(`    innerShadow.drawForRectangle(g, outerRect);`);
+    lines.push(`    innerShadow.drawForPath(g, inverse);`);
     lines.push(`    g.restoreState();`);
     lines.push(`}`);
   }
@@ -236,23 +684,6 @@ function generateInnerShadows(node: IRNode, boundsExpr: string): string[] {
   return lines;
 }
 
-// ─── Blur Effects ───────────────────────────────────────────────────────────
-
-function generateBlurEffects(node: IRNode): string[] {
-  const lines: string[] = [];
-
-  for (const effect of node.effects) {
-    if ((effect.type !== 'layerBlur' && effect.type !== 'backgroundBlur') || !effect.visible) continue;
-    const blur = effect as IRBlur;
-
-    // JUCE doesn't have built-in blur — leave a helpful comment
-    lines.push(`// ${effect.type === 'backgroundBlur' ? 'Background' : 'Layer'} blur (radius: ${Math.round(blur.radius)}px)`);
-    lines.push(`// Implement via juce::ImageConvolutionKernel or custom shader`);
-  }
-
-  return lines;
-}
-
 // ─── Strokes ────────────────────────────────────────────────────────────────
 
 function generateStrokes(node: IRNode, boundsExpr: string): string[] {
@@ -261,33 +692,195 @@ function generateStrokes(node: IRNode, boundsExpr: string): string[] {
   for (const stroke of node.strokes) {
     if (!stroke.visible) continue;
 
-    lines.push(
-      `g.setColour(${generateColourWithOpacity(stroke.color, stroke.opacity)});`,
-    );
+    const strokeLines = generateStrokePaintCode(stroke, boundsExpr).trimEnd().split('\n');
 
-    if (isIREllipseNode(node)) {
-      lines.push(`g.drawEllipse(${boundsExpr}, ${toFloat(stroke.weight)});`);
+    if (needsStrokePath(stroke) || (isIREllipseNode(node) && pieSegmentArgs(node)) || hasSmoothedCorners(node)) {
+      strokeLines.push(...generateOutlineStroke(node, stroke, boundsExpr));
+    } else if (isIREllipseNode(node)) {
+      strokeLines.push(`g.drawEllipse(${boundsExpr}, ${toFloat(stroke.weight)});`);
     } else if (
       (isIRRectangleNode(node) || isIRFrameNode(node)) &&
       hasRounding(node.cornerRadius)
     ) {
-      lines.push(
+      strokeLines.push(
         `g.drawRoundedRectangle(${boundsExpr}, ${toFloat(node.cornerRadius.topLeft)}, ${toFloat(stroke.weight)});`,
       );
     } else {
-      lines.push(`g.drawRect(${boundsExpr}, ${toFloat(stroke.weight)});`);
+      strokeLines.push(`g.drawRect(${boundsExpr}, ${toFloat(stroke.weight)});`);
     }
+
+    // Gradient and image paints declare locals, so they get their own scope
+    lines.push(...(stroke.paint ? ['{', ...strokeLines.map(l => `    ${l}`), '}'] : strokeLines));
   }
 
   return lines;
 }
 
+/**
+ * Stroke a rect or ellipse outline as a juce::Path, for dashes, joins and caps.
+ * The outline is offset by half the weight so inside/outside strokes stay put.
+ */
+function generateOutlineStroke(node: IRNode, stroke: IRStroke, boundsExpr: string): string[] {
+  const half = toFloat(stroke.weight / 2);
+  let outlineBounds = boundsExpr;
+  if (stroke.align === 'inside') outlineBounds = `${boundsExpr}.reduced(${half})`;
+  if (stroke.align === 'outside') outlineBounds = `${boundsExpr}.expanded(${half})`;
+
+  let shape: string;
+  const segment = isIREllipseNode(node) ? pieSegmentArgs(node) : null;
+  if ((isIRRectangleNode(node) || isIRFrameNode(node)) && isSmoothed(node.cornerRadius)) {
+    shape = generateSquirclePath('outline', outlineBounds, node.cornerRadius);
+  } else if (segment) {
+    shape = `outline.addPieSegment(${outlineBounds}, ${segment});`;
+  } else if (isIREllipseNode(node)) {
+    shape = `outline.addEllipse(${outlineBounds});`;
+  } else if ((isIRRectangleNode(node) || isIRFrameNode(node)) && hasRounding(node.cornerRadius)) {
+    shape = `outline.addRoundedRectangle(${outlineBounds}, ${toFloat(node.cornerRadius.topLeft)});`;
+  } else {
+    shape = `outline.addRectangle(${outlineBounds});`;
+  }
+
+  return [
+    `{`,
+    `    juce::Path outline;`,
+    `    ${shape}`,
+    ...generateStrokePath(stroke, 'outline').map(l => `    ${l}`),
+    `}`,
+  ];
+}
+
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
+/**
+ * Where a node is drawn: the bounds of its (unrotated) shape, the centre it
+ * is transformed about, and the transform taking its local space (vector
+ * geometry, children) to the component. Its Figma size is kept for spread.
+ */
+interface NodePlacement {
+  bounds: string;
+  centreX: string;
+  centreY: string;
+  local: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Place a node at its Figma bounds, or in the member rectangle that
+ * resized() lays it out in.
+ */
+function nodePlacement(node: IRNode, isTransformed: boolean, layoutVar?: string): NodePlacement {
+  const { x, y, width, height } = isTransformed
+    ? unrotatedBounds(node)
+    : { x: node.relativeX, y: node.relativeY, width: node.bounds.width, height: node.bounds.height };
+
+  if (layoutVar) {
+    const sx = width > 0 ? `${layoutVar}.getWidth() / ${toFloat(width)}` : '1.0f';
+    const sy = height > 0 ? `${layoutVar}.getHeight() / ${toFloat(height)}` : '1.0f';
+    return {
+      bounds: layoutVar,
+      centreX: `${layoutVar}.getCentreX()`,
+      centreY: `${layoutVar}.getCentreY()`,
+      local: `juce::AffineTransform::scale(${sx}, ${sy}).translated(${layoutVar}.getX(), ${layoutVar}.getY())`,
+      width,
+      height,
+    };
+  }
+
+  return {
+    bounds: isTransformed ? transformedBoundsExpr(node) : nodeBoundsExpr(node),
+    centreX: toFloat(x + width / 2),
+    centreY: toFloat(y + height / 2),
+    local: `juce::AffineTransform::translation(${toFloat(x)}, ${toFloat(y)})`,
+    width,
+    height,
+  };
+}
+
 function nodeBoundsExpr(node: IRNode): string {
   return `juce::Rectangle<float>(${toFloat(node.relativeX)}, ${toFloat(node.relativeY)}, ${toFloat(node.bounds.width)}, ${toFloat(node.bounds.height)})`;
 }
 
+/**
+ * The area a layer-blurred node draws into: its bounds, or the rectangle
+ * resized() lays it out in, grown by how far its drawing reaches past them.
+ */
+function layerBlurArea(node: IRNode, layoutVar?: string): string {
+  return `${layoutVar ?? nodeBoundsExpr(node)}.expanded(${toFloat(Math.ceil(paintOverflow(node)))})`;
+}
+
+/**
+ * How far a node's drawing (strokes, drop shadows, blurs and children its
+ * frame doesn't clip) reaches past its Figma bounds on any side.
+ */
+function paintOverflow(node: IRNode): number {
+  const { x, y, width, height } = node.bounds;
+  let overflow = 0;
+  const visit = (n: IRNode) => {
+    if (!n.visible) return;
+    let reach = 0;
+    for (const stroke of n.strokes) {
+      if (stroke.visible && stroke.align !== 'inside') reach = Math.max(reach, stroke.align === 'outside' ? stroke.weight : stroke.weight / 2);
+    }
+    for (const effect of n.effects) {
+      if (effect.visible && effect.type === 'dropShadow') {
+        reach = Math.max(reach, Math.max(Math.abs(effect.offset.x), Math.abs(effect.offset.y)) + effect.radius + effect.spread);
+      }
+    }
+    // A layer blur spreads everything the node draws
+    const blur = findBlur(n, 'layerBlur');
+    if (blur) reach += blurExtent(blur.radius);
+    const b = n.bounds;
+    overflow = Math.max(
+      overflow,
+      x - (b.x - reach),
+      y - (b.y - reach),
+      b.x + b.width + reach - (x + width),
+      b.y + b.height + reach - (y + height),
+    );
+    if (hasIRChildren(n) && !(isIRFrameNode(n) && n.clipsContent)) n.children.forEach(visit);
+  };
+  visit(node);
+  return overflow;
+}
+
+/**
+ * Unrotated bounds of a transformed node, centred on its axis-aligned bounds.
+ */
+function unrotatedBounds(node: IRNode): IRBounds {
+  const width = node.size?.x ?? node.bounds.width;
+  const height = node.size?.y ?? node.bounds.height;
+  const x = node.relativeX + (node.bounds.width - width) / 2;
+  const y = node.relativeY + (node.bounds.height - height) / 2;
+  return { x, y, width, height };
+}
+
+function transformedBoundsExpr(node: IRNode): string {
+  const { x, y, width, height } = unrotatedBounds(node);
+  return `juce::Rectangle<float>(${toFloat(x)}, ${toFloat(y)}, ${toFloat(width)}, ${toFloat(height)})`;
+}
+
+/**
+ * Angle and inner-radius arguments for juce::Path::addPieSegment(), or null
+ * for a plain ellipse. Figma measures radians clockwise from 3 o'clock,
+ * JUCE clockwise from 12 o'clock.
+ */
+function pieSegmentArgs(node: IREllipseNode): string | null {
+  const start = node.arcStartAngle ?? 0;
+  let end = node.arcEndAngle ?? start + 2 * Math.PI;
+  if (end < start) end += 2 * Math.PI;
+  const inner = node.innerRadius ?? 0;
+
+  const isFullSweep = end - start >= 2 * Math.PI - 1e-6;
+  if (isFullSweep && inner <= 0) return null;
+
+  return `${toFloat(start + Math.PI / 2)}, ${toFloat(end + Math.PI / 2)}, ${toFloat(inner)}`;
+}
+
+function hasSmoothedCorners(node: IRNode): boolean {
+  return (isIRRectangleNode(node) || isIRFrameNode(node)) && isSmoothed(node.cornerRadius);
+}
+
 function hasRounding(cr: IRCornerRadius): boolean {
   return cr.topLeft > 0 || cr.topRight > 0 || cr.bottomRight > 0 || cr.bottomLeft > 0;
 }
@@ -1,15 +1,16 @@
 // Generate juce::Path code from IR vector nodes (SVG path data → JUCE Path commands).
 
-import type { IRVectorNode, IRPathData } from '../ir/types.js';
-import { generateFillCode, generateColourWithOpacity } from './colour.js';
+import type { IRVectorNode, IRPathData, IRStroke } from '../ir/types.js';
+import { generateFillCode, generateStrokePaintCode, fillsBoundsItself } from './colour.js';
 import { toFloat } from '../utils/math.js';
 
 // ─── Public API ─────────────────────────────────────────────────────────────
 
 /**
  * Generate C++ lines to draw a vector node's paths.
+ * @param placement Optional transform from the paths' local space into the component
  */
-export function generatePathDraw(node: IRVectorNode, boundsExpr: string): string[] {
+export function generatePathDraw(node: IRVectorNode, boundsExpr: string, placement?: string): string[] {
   const lines: string[] = [];
 
   for (let i = 0; i < node.paths.length; i++) {
@@ -21,6 +22,9 @@ export function generatePathDraw(node: IRVectorNode, boundsExpr: string): string
     // Build the path
     lines.push(`    juce::Path ${varName};`);
     lines.push(...svgToJucePath(pathData, varName).map(l => `    ${l}`));
+    if (placement) {
+      lines.push(`    ${varName}.applyTransform(${placement});`);
+    }
 
     // Set winding rule
     if (pathData.windingRule === 'evenodd') {
@@ -32,6 +36,12 @@ export function generatePathDraw(node: IRVectorNode, boundsExpr: string): string
       if (!fill.visible) continue;
       const fillCode = generateFillCode(fill, boundsExpr);
       if (!fillCode) continue;
+      if (fillsBoundsItself(fill)) {
+        // Paints the whole bounds: clip to the path instead of filling it
+        const clipped = [`g.saveState();`, `g.reduceClipRegion(${varName});`, ...fillCode.trimEnd().split('\n'), `g.restoreState();`];
+        lines.push(...clipped.map(l => `    ${l}`));
+        continue;
+      }
       lines.push(`    ${fillCode.trimEnd()}`);
       lines.push(`    g.fillPath(${varName});`);
     }
@@ -39,8 +49,13 @@ export function generatePathDraw(node: IRVectorNode, boundsExpr: string): string
     // Apply strokes
     for (const stroke of node.strokes) {
       if (!stroke.visible) continue;
-      lines.push(`    g.setColour(${generateColourExprForStroke(stroke)});`);
-      lines.push(`    g.strokePath(${varName}, juce::PathStrokeType(${toFloat(stroke.weight)}));`);
+      const strokeLines = [
+        ...generateStrokePaintCode(stroke, boundsExpr).trimEnd().split('\n'),
+        ...generateStrokePath(stroke, varName),
+      ];
+      // Gradient and image paints declare locals, so they get their own scope
+      const scoped = stroke.paint ? ['{', ...strokeLines.map(l => `    ${l}`), '}'] : strokeLines;
+      lines.push(...scoped.map(l => `    ${l}`));
     }
 
     lines.push(`}`);
@@ -49,11 +64,82 @@ export function generatePathDraw(node: IRVectorNode, boundsExpr: string): string
   return lines;
 }
 
+/**
+ * Generate C++ lines to stroke an existing juce::Path with a stroke's weight,
+ * joint style, end caps and dash pattern. The colour must already be set.
+ */
+export function generateStrokePath(stroke: IRStroke, pathVar: string): string[] {
+  const strokeType = generateStrokeType(stroke);
+
+  if (stroke.dashes.length === 0) {
+    return [`g.strokePath(${pathVar}, ${strokeType});`];
+  }
+
+  return [
+    `{`,
+    `    const float dashes[] = { ${dashLengths(stroke.dashes).map(toFloat).join(', ')} };`,
+    `    juce::Path dashed;`,
+    `    ${strokeType}.createDashedStroke(dashed, ${pathVar}, dashes, ${stroke.dashes.length});`,
+    `    g.fillPath(dashed);`,
+    `}`,
+  ];
+}
+
+/**
+ * Figma draws zero-length dashes as dots (or squares) from the end caps, but
+ * JUCE drops empty dash segments, caps and all. Give them a hairline length,
+ * taken from the following gap, so the caps still draw.
+ */
+function dashLengths(dashes: number[]): number[] {
+  const dot = 0.01;
+  const lengths = [...dashes];
+  for (let i = 0; i < lengths.length; i += 2) {
+    if (lengths[i] > 0) continue;
+    lengths[i] = dot;
+    const gap = (i + 1) % lengths.length;
+    if (gap !== i && lengths[gap] >= dot) lengths[gap] -= dot;
+  }
+  return lengths;
+}
+
+/**
+ * True when a stroke needs a juce::Path (dashes or a non-default join/cap)
+ * rather than Graphics::drawRect() and friends.
+ */
+export function needsStrokePath(stroke: IRStroke): boolean {
+  return stroke.dashes.length > 0 || stroke.join !== 'miter' || stroke.cap !== 'none';
+}
+
+function generateStrokeType(stroke: IRStroke): string {
+  if (stroke.join === 'miter' && stroke.cap === 'none') {
+    return `juce::PathStrokeType(${toFloat(stroke.weight)})`;
+  }
+  return `juce::PathStrokeType(${toFloat(stroke.weight)}, ${mapJointStyle(stroke.join)}, ${mapEndCapStyle(stroke.cap)})`;
+}
+
+function mapJointStyle(join: IRStroke['join']): string {
+  switch (join) {
+    case 'miter': return 'juce::PathStrokeType::mitered';
+    case 'bevel': return 'juce::PathStrokeType::beveled';
+    case 'round': return 'juce::PathStrokeType::curved';
+  }
+}
+
+function mapEndCapStyle(cap: IRStroke['cap']): string {
+  switch (cap) {
+    case 'none': return 'juce::PathStrokeType::butt';
+    case 'square': return 'juce::PathStrokeType::square';
+    case 'round': return 'juce::PathStrokeType::rounded';
+  }
+}
+
 // ─── SVG Path → JUCE Path ───────────────────────────────────────────────────
 
 /**
  * Convert an SVG path string to juce::Path method calls.
- * Supports: M, L, C, Q, Z (and lowercase relative variants).
+ * Supports every SVG command (M, L, H, V, C, S, Q, T, A, Z and their lowercase
+ * relative variants). Arcs become cubic segments; S/T reflect the previous
+ * control point.
  */
 export function svgToJucePath(pathData: IRPathData, varName: string): string[] {
   const lines: string[] = [];
@@ -61,105 +147,201 @@ export function svgToJucePath(pathData: IRPathData, varName: string): string[] {
 
   let currentX = 0;
   let currentY = 0;
+  let startX = 0;
+  let startY = 0;
+  // Second control point of the previous cubic/quadratic, for S and T
+  let lastCubicControl: Point | null = null;
+  let lastQuadControl: Point | null = null;
+
+  const lineTo = (x: number, y: number) => {
+    lines.push(`${varName}.lineTo(${toFloat(x)}, ${toFloat(y)});`);
+    currentX = x;
+    currentY = y;
+  };
+  const cubicTo = (x1: number, y1: number, x2: number, y2: number, x: number, y: number) => {
+    lines.push(
+      `${varName}.cubicTo(${toFloat(x1)}, ${toFloat(y1)}, ${toFloat(x2)}, ${toFloat(y2)}, ${toFloat(x)}, ${toFloat(y)});`,
+    );
+    currentX = x;
+    currentY = y;
+  };
+  const quadraticTo = (x1: number, y1: number, x: number, y: number) => {
+    lines.push(`${varName}.quadraticTo(${toFloat(x1)}, ${toFloat(y1)}, ${toFloat(x)}, ${toFloat(y)});`);
+    currentX = x;
+    currentY = y;
+  };
 
   for (const cmd of commands) {
-    switch (cmd.type) {
+    const type = cmd.type.toUpperCase();
+    const a = cmd.args;
+    if (a.length < getExpectedArgCount(type)) continue;
+
+    // Offsets that make relative (lowercase) coordinates absolute
+    const isRelative = cmd.type !== type;
+    const ox = isRelative ? currentX : 0;
+    const oy = isRelative ? currentY : 0;
+
+    let cubicControl: Point | null = null;
+    let quadControl: Point | null = null;
+
+    switch (type) {
       case 'M':
-        lines.push(`${varName}.startNewSubPath(${toFloat(cmd.args[0])}, ${toFloat(cmd.args[1])});`);
-        currentX = cmd.args[0];
-        currentY = cmd.args[1];
-        break;
-      case 'm': {
-        const mx = currentX + cmd.args[0];
-        const my = currentY + cmd.args[1];
-        lines.push(`${varName}.startNewSubPath(${toFloat(mx)}, ${toFloat(my)});`);
-        currentX = mx;
-        currentY = my;
+        currentX = startX = ox + a[0];
+        currentY = startY = oy + a[1];
+        lines.push(`${varName}.startNewSubPath(${toFloat(currentX)}, ${toFloat(currentY)});`);
         break;
-      }
       case 'L':
-        lines.push(`${varName}.lineTo(${toFloat(cmd.args[0])}, ${toFloat(cmd.args[1])});`);
-        currentX = cmd.args[0];
-        currentY = cmd.args[1];
+        lineTo(ox + a[0], oy + a[1]);
         break;
-      case 'l': {
-        const lx = currentX + cmd.args[0];
-        const ly = currentY + cmd.args[1];
-        lines.push(`${varName}.lineTo(${toFloat(lx)}, ${toFloat(ly)});`);
-        currentX = lx;
-        currentY = ly;
-        break;
-      }
       case 'H':
-        lines.push(`${varName}.lineTo(${toFloat(cmd.args[0])}, ${toFloat(currentY)});`);
-        currentX = cmd.args[0];
+        lineTo(ox + a[0], currentY);
         break;
-      case 'h': {
-        const hx = currentX + cmd.args[0];
-        lines.push(`${varName}.lineTo(${toFloat(hx)}, ${toFloat(currentY)});`);
-        currentX = hx;
-        break;
-      }
       case 'V':
-        lines.push(`${varName}.lineTo(${toFloat(currentX)}, ${toFloat(cmd.args[0])});`);
-        currentY = cmd.args[0];
+        lineTo(currentX, oy + a[0]);
         break;
-      case 'v': {
-        const vy = currentY + cmd.args[0];
-        lines.push(`${varName}.lineTo(${toFloat(currentX)}, ${toFloat(vy)});`);
-        currentY = vy;
-        break;
-      }
       case 'C':
-        lines.push(
-          `${varName}.cubicTo(${toFloat(cmd.args[0])}, ${toFloat(cmd.args[1])}, ${toFloat(cmd.args[2])}, ${toFloat(cmd.args[3])}, ${toFloat(cmd.args[4])}, ${toFloat(cmd.args[5])});`,
-        );
-        currentX = cmd.args[4];
-        currentY = cmd.args[5];
+        cubicControl = { x: ox + a[2], y: oy + a[3] };
+        cubicTo(ox + a[0], oy + a[1], cubicControl.x, cubicControl.y, ox + a[4], oy + a[5]);
         break;
-      case 'c': {
-        const cx1 = currentX + cmd.args[0];
-        const cy1 = currentY + cmd.args[1];
-        const cx2 = currentX + cmd.args[2];
-        const cy2 = currentY + cmd.args[3];
-        const cex = currentX + cmd.args[4];
-        const cey = currentY + cmd.args[5];
-        lines.push(
-          `${varName}.cubicTo(${toFloat(cx1)}, ${toFloat(cy1)}, ${toFloat(cx2)}, ${toFloat(cy2)}, ${toFloat(cex)}, ${toFloat(cey)});`,
-        );
-        currentX = cex;
-        currentY = cey;
+      case 'S': {
+        const first = reflect(lastCubicControl, currentX, currentY);
+        cubicControl = { x: ox + a[0], y: oy + a[1] };
+        cubicTo(first.x, first.y, cubicControl.x, cubicControl.y, ox + a[2], oy + a[3]);
         break;
       }
       case 'Q':
-        lines.push(
-          `${varName}.quadraticTo(${toFloat(cmd.args[0])}, ${toFloat(cmd.args[1])}, ${toFloat(cmd.args[2])}, ${toFloat(cmd.args[3])});`,
-        );
-        currentX = cmd.args[2];
-        currentY = cmd.args[3];
+        quadControl = { x: ox + a[0], y: oy + a[1] };
+        quadraticTo(quadControl.x, quadControl.y, ox + a[2], oy + a[3]);
         break;
-      case 'q': {
-        const qx1 = currentX + cmd.args[0];
-        const qy1 = currentY + cmd.args[1];
-        const qex = currentX + cmd.args[2];
-        const qey = currentY + cmd.args[3];
-        lines.push(
-          `${varName}.quadraticTo(${toFloat(qx1)}, ${toFloat(qy1)}, ${toFloat(qex)}, ${toFloat(qey)});`,
-        );
-        currentX = qex;
-        currentY = qey;
+      case 'T':
+        quadControl = reflect(lastQuadControl, currentX, currentY);
+        quadraticTo(quadControl.x, quadControl.y, ox + a[0], oy + a[1]);
+        break;
+      case 'A': {
+        const x = ox + a[5];
+        const y = oy + a[6];
+        const segments = arcToCubics(currentX, currentY, a[0], a[1], a[2], a[3] !== 0, a[4] !== 0, x, y);
+        if (segments === null) {
+          lineTo(x, y);
+        } else {
+          for (const seg of segments) cubicTo(...seg);
+        }
         break;
       }
       case 'Z':
-      case 'z':
         lines.push(`${varName}.closeSubPath();`);
+        currentX = startX;
+        currentY = startY;
         break;
     }
+
+    lastCubicControl = cubicControl;
+    lastQuadControl = quadControl;
   }
 
   return lines;
 }
 
+// ─── Curve Helpers ──────────────────────────────────────────────────────────
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+type CubicSegment = [number, number, number, number, number, number];
+
+/**
+ * Reflect the previous control point about the current point. With no
+ * previous curve of the same kind, the control point is the current point.
+ */
+function reflect(control: Point | null, x: number, y: number): Point {
+  if (!control) return { x, y };
+  return { x: 2 * x - control.x, y: 2 * y - control.y };
+}
+
+/**
+ * Convert an SVG elliptical arc to cubic Bézier segments of at most 90° each
+ * (endpoint → centre parameterisation, SVG spec appendix B.2.4).
+ * Returns [] when the endpoints coincide, or null when a radius is zero and
+ * the arc degenerates to a straight line.
+ */
+function arcToCubics(
+  x1: number,
+  y1: number,
+  rx: number,
+  ry: number,
+  rotationDeg: number,
+  largeArc: boolean,
+  sweep: boolean,
+  x2: number,
+  y2: number,
+): CubicSegment[] | null {
+  if (x1 === x2 && y1 === y2) return [];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return null;
+
+  const phi = (rotationDeg * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+
+  // Midpoint in the ellipse's rotated frame
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+
+  // Scale radii up if the endpoints can't be reached
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const num = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const den = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coef = (largeArc !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, num / den));
+  const cxp = (coef * rx * y1p) / ry;
+  const cyp = (-coef * ry * x1p) / rx;
+  const cx = cosPhi * cxp - sinPhi * cyp + (x1 + x2) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (y1 + y2) / 2;
+
+  const theta1 = vectorAngle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let deltaTheta = vectorAngle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && deltaTheta > 0) deltaTheta -= 2 * Math.PI;
+  if (sweep && deltaTheta < 0) deltaTheta += 2 * Math.PI;
+
+  const count = Math.max(1, Math.ceil(Math.abs(deltaTheta) / (Math.PI / 2) - 1e-9));
+  const delta = deltaTheta / count;
+  const k = (4 / 3) * Math.tan(delta / 4);
+
+  const pointAt = (t: number): Point => ({
+    x: cx + rx * Math.cos(t) * cosPhi - ry * Math.sin(t) * sinPhi,
+    y: cy + rx * Math.cos(t) * sinPhi + ry * Math.sin(t) * cosPhi,
+  });
+  const tangentAt = (t: number): Point => ({
+    x: -rx * Math.sin(t) * cosPhi - ry * Math.cos(t) * sinPhi,
+    y: -rx * Math.sin(t) * sinPhi + ry * Math.cos(t) * cosPhi,
+  });
+
+  const segments: CubicSegment[] = [];
+  for (let i = 0; i < count; i++) {
+    const t1 = theta1 + i * delta;
+    const t2 = t1 + delta;
+    const p1 = pointAt(t1);
+    const p2 = i === count - 1 ? { x: x2, y: y2 } : pointAt(t2);
+    const d1 = tangentAt(t1);
+    const d2 = tangentAt(t2);
+    segments.push([p1.x + k * d1.x, p1.y + k * d1.y, p2.x - k * d2.x, p2.y - k * d2.y, p2.x, p2.y]);
+  }
+  return segments;
+}
+
+function vectorAngle(ux: number, uy: number, vx: number, vy: number): number {
+  return Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+}
+
 // ─── SVG Path Parser ────────────────────────────────────────────────────────
 
 interface SvgCommand {
@@ -185,15 +367,17 @@ export function parseSvgPath(d: string): SvgCommand[] {
       continue;
     }
 
-    const args = parseNumbers(argStr);
+    const args = type === 'A' || type === 'a' ? parseArcNumbers(argStr) : parseNumbers(argStr);
     const expectedArgs = getExpectedArgCount(type);
 
     if (expectedArgs === 0 || args.length <= expectedArgs) {
       commands.push({ type, args });
     } else {
-      // Split implicit repeated commands (e.g., "L 1 2 3 4" → two L commands)
+      // Split implicit repeated commands (e.g., "L 1 2 3 4" → two L commands).
+      // Pairs after a moveto are implicit linetos.
       for (let i = 0; i < args.length; i += expectedArgs) {
-        commands.push({ type, args: args.slice(i, i + expectedArgs) });
+        const repeatType = i === 0 ? type : type === 'M' ? 'L' : type === 'm' ? 'l' : type;
+        commands.push({ type: repeatType, args: args.slice(i, i + expectedArgs) });
       }
     }
   }
@@ -201,12 +385,45 @@ export function parseSvgPath(d: string): SvgCommand[] {
   return commands;
 }
 
+const NUMBER_PATTERN = /[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/iy;
+const SEPARATOR_PATTERN = /[\s,]*/y;
+
 function parseNumbers(str: string): number[] {
   if (!str) return [];
-  const matches = str.match(/-?\d*\.?\d+(?:e[+-]?\d+)?/gi);
+  const matches = str.match(new RegExp(NUMBER_PATTERN.source, 'gi'));
   return matches ? matches.map(Number) : [];
 }
 
+/**
+ * Parse arc arguments, where the two flags are single digits that may be
+ * written without separators (e.g. "10 10 0 0110 20").
+ */
+function parseArcNumbers(str: string): number[] {
+  const args: number[] = [];
+  let pos = 0;
+  while (pos < str.length) {
+    SEPARATOR_PATTERN.lastIndex = pos;
+    SEPARATOR_PATTERN.exec(str);
+    pos = SEPARATOR_PATTERN.lastIndex;
+    if (pos >= str.length) break;
+
+    const index = args.length % 7;
+    if (index === 3 || index === 4) {
+      if (str[pos] !== '0' && str[pos] !== '1') break;
+      args.push(Number(str[pos]));
+      pos++;
+      continue;
+    }
+
+    NUMBER_PATTERN.lastIndex = pos;
+    const match = NUMBER_PATTERN.exec(str);
+    if (!match) break;
+    args.push(Number(match[0]));
+    pos = NUMBER_PATTERN.lastIndex;
+  }
+  return args;
+}
+
 function getExpectedArgCount(type: string): number {
   switch (type.toUpperCase()) {
     case 'M': case 'L': case 'T': return 2;
@@ -217,9 +434,3 @@ function getExpectedArgCount(type: string): number {
     default: return 0;
   }
 }
-
-// ─── Helpers ────────────────────────────────────────────────────────────────
-
-function generateColourExprForStroke(stroke: { color: { r: number; g: number; b: number; a: number }; opacity: number }): string {
-  return generateColourWithOpacity(stroke.color, stroke.opacity);
-}
@@ -3,14 +3,19 @@
 import type {
   IRNode,
   IRFrameNode,
+  IRGroupNode,
   IRAutoLayout,
+  IRGridAxis,
+  IRGridTrack,
   IRConstraints,
   IRBounds,
 } from '../ir/types.js';
-import { isIRFrameNode, isIRGroupNode } from '../ir/types.js';
+import { isIRFrameNode, isIRGroupNode, isIRTextNode } from '../ir/types.js';
 import { toFloat, toInt } from '../utils/math.js';
-import { toVariableName } from '../utils/naming.js';
+import { toMemberNames } from '../utils/naming.js';
 import { detectComponentHint } from './component-hints.js';
+import { hasLinearTransform, generateTransformExpr } from './transform.js';
+import { generateFirstBaseline } from './text.js';
 
 // ─── Public API ─────────────────────────────────────────────────────────────
 
@@ -20,27 +25,78 @@ export interface NestedComponentInfo {
   className: string;
 }
 
+/**
+ * A component's visible children followed by everything inside its groups.
+ * Figma constrains group children to the enclosing frame, so layout treats
+ * them as the frame's own children.
+ */
+export function flattenGroups(children: IRNode[]): IRNode[] {
+  const nodes = children.filter(c => c.visible);
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    if (isIRGroupNode(node)) nodes.push(...node.children.filter(c => c.visible));
+  }
+  return nodes;
+}
+
+/**
+ * Member names for a component's children and the nodes inside its groups.
+ * Top-level children come first, so their names don't depend on the groups.
+ */
+export function collectMemberNames(root: IRFrameNode): Map<string, string> {
+  return toMemberNames(flattenGroups(root.children));
+}
+
+/**
+ * Map each inline-drawn node that resized() lays out (everything but nested
+ * components) to the member rectangle it stores its layout in, e.g.
+ * "knobBounds". Top-level children and group contents are always laid out;
+ * frames' children are laid out when an auto-layout or grid container sits
+ * at or below the frame.
+ */
+export function collectLayoutBounds(
+  root: IRFrameNode,
+  nestedComponents: NestedComponentInfo[] = []
+): Map<string, string> {
+  const topLevel = root.children.filter(c => c.visible);
+  const laidOut = topLevel.filter(c => !nestedComponents.some(nc => nc.node.id === c.id));
+  for (let i = 0; i < laidOut.length; i++) {
+    const node = laidOut[i];
+    if (laysOutChildren(node)) laidOut.push(...node.children.filter(c => c.visible));
+  }
+
+  // Top-level and grouped children keep the names their component members use
+  const members = flattenGroups(root.children);
+  const varNames = toMemberNames([...members, ...laidOut.filter(c => !members.includes(c))]);
+  return new Map(laidOut.map(c => [c.id, `${varNames.get(c.id)}Bounds`]));
+}
+
 /**
  * Generate the resized() method body for a component.
  * Outputs setBounds() calls using proportional coordinates,
- * or FlexBox layout for auto-layout frames.
+ * FlexBox layout for auto-layout frames, or Grid layout for grid frames.
  * @param root The root frame node
  * @param nestedComponents Info about nested component children
+ * @param layoutBounds Member rectangles that keep the layout of inline-drawn children, by node ID
  */
 export function generateResizedBody(
   root: IRFrameNode,
-  nestedComponents: NestedComponentInfo[] = []
+  nestedComponents: NestedComponentInfo[] = [],
+  layoutBounds: Map<string, string> = new Map(),
 ): string {
   const lines: string[] = [];
   const rootW = root.bounds.width;
   const rootH = root.bounds.height;
+  const memberNames = collectMemberNames(root);
 
   lines.push(`auto bounds = getLocalBounds();`);
 
   if (root.autoLayout) {
-    lines.push(...generateFlexBoxLayout(root, 'bounds', nestedComponents));
+    lines.push(...generateFlexBoxLayout(root, 'bounds', nestedComponents, layoutBounds, memberNames));
+  } else if (root.grid) {
+    lines.push(...generateGridLayout(root, 'bounds', nestedComponents, layoutBounds, memberNames));
   } else {
-    lines.push(...generateAbsoluteLayout(root.children, rootW, rootH, 'bounds', nestedComponents));
+    lines.push(...generateAbsoluteLayout(root.children, rootW, rootH, 'bounds', nestedComponents, layoutBounds, memberNames));
   }
 
   return lines.join('\n');
@@ -48,51 +104,114 @@ export function generateResizedBody(
 
 // ─── Absolute Layout (setBounds with proportional coords) ───────────────────
 
+/**
+ * Place children by their constraints (or proportionally) inside their
+ * parent's bounds. Groups are flattened: their children are placed in the
+ * same parent, at their position within it.
+ * @param memberNames Component member names, when placing the component's own children
+ */
 function generateAbsoluteLayout(
   children: IRNode[],
   parentW: number,
   parentH: number,
   parentBoundsExpr: string,
-  nestedComponents: NestedComponentInfo[] = []
+  nestedComponents: NestedComponentInfo[] = [],
+  layoutBounds: Map<string, string> = new Map(),
+  memberNames?: Map<string, string>,
 ): string[] {
   const lines: string[] = [];
+  const varNames = memberNames ?? toMemberNames(flattenGroups(children));
 
   for (const child of children) {
     if (!child.visible) continue;
+    const varName = varNames.get(child.id)!;
+    lines.push(...generateAbsoluteChild(child, varName, parentW, parentH, parentBoundsExpr, nestedComponents, layoutBounds, memberNames));
+
+    // Group children keep their own transforms, which Figma gives relative
+    // to the group's parent (as paint() draws them)
+    if (isIRGroupNode(child)) {
+      const grouped = child.children.map(c => ({ ...c, relativeX: child.relativeX + c.relativeX, relativeY: child.relativeY + c.relativeY }));
+      lines.push(...generateAbsoluteLayout(grouped, parentW, parentH, parentBoundsExpr, nestedComponents, layoutBounds, memberNames));
+    }
+  }
 
-    const varName = toVariableName(child.name);
-    const b = child.bounds;
+  return lines;
+}
 
-    // Proportional coordinates relative to parent
-    const xProp = parentW > 0 ? child.relativeX / parentW : 0;
-    const yProp = parentH > 0 ? child.relativeY / parentH : 0;
-    const wProp = parentW > 0 ? b.width / parentW : 0;
-    const hProp = parentH > 0 ? b.height / parentH : 0;
+/**
+ * Place one child by its constraints (or proportionally) inside its parent's bounds.
+ */
+function generateAbsoluteChild(
+  child: IRNode,
+  varName: string,
+  parentW: number,
+  parentH: number,
+  parentBoundsExpr: string,
+  nestedComponents: NestedComponentInfo[],
+  layoutBounds: Map<string, string>,
+  memberNames: Map<string, string> | undefined,
+): string[] {
+  const lines: string[] = [];
+  const b = child.bounds;
 
-    lines.push(
-      `// ${child.name}`,
-    );
+  lines.push(
+    `// ${child.name}`,
+  );
 
-    if (child.constraints) {
-      lines.push(...generateConstrainedBounds(child, parentW, parentH, parentBoundsExpr));
-    } else {
+  const rectExpr = generateChildRect(child, parentW, parentH, parentBoundsExpr);
+
+  // Inline-drawn children keep their layout in a member for paint()
+  const layoutVar = layoutBounds.get(child.id);
+  const boundsVar = layoutVar ?? `${varName}Bounds`;
+  lines.push(layoutVar ? `${layoutVar} = ${rectExpr}.toFloat();` : `auto ${boundsVar} = ${rectExpr};`);
+
+  // Check if this is a nested component or a JUCE component hint
+  // (only the component's own children, groups included, become members)
+  const isNestedComponent = nestedComponents.some(nc => nc.node.id === child.id);
+  const hint = memberNames && detectComponentHint(child.name);
+
+  // Rotated children keep their unrotated size and are transformed about their centre
+  const isTransformed = hasLinearTransform(child.transform);
+  if (isTransformed && (isNestedComponent || hint || layoutVar)) {
+    const size = child.size ?? { x: b.width, y: b.height };
+    const sizeArgs = child.constraints
+      ? `${toInt(size.x)}, ${toInt(size.y)}`
+      : `${parentBoundsExpr}.getWidth() * ${toFloat(parentW > 0 ? size.x / parentW : 0)}, ${parentBoundsExpr}.getHeight() * ${toFloat(parentH > 0 ? size.y / parentH : 0)}`;
+    lines.push(`${boundsVar} = ${boundsVar}.withSizeKeepingCentre(${sizeArgs});`);
+  }
+
+  if (isNestedComponent || hint) {
+    lines.push(`${varName}.setBounds(${boundsVar}.toNearestInt());`);
+
+    if (isTransformed) {
       lines.push(
-        `auto ${varName}Bounds = ${parentBoundsExpr}.getProportion(juce::Rectangle<float>(${toFloat(xProp)}, ${toFloat(yProp)}, ${toFloat(wProp)}, ${toFloat(hProp)}));`,
+        `${varName}.setTransform(${generateTransformExpr(child.transform!, `${boundsVar}.getCentreX()`, `${boundsVar}.getCentreY()`)});`,
       );
     }
-
-    // Check if this is a nested component or a JUCE component hint
-    const isNestedComponent = nestedComponents.some(nc => nc.node.id === child.id);
-    const hint = detectComponentHint(child.name);
-    
-    if (isNestedComponent || hint) {
-      lines.push(`${varName}.setBounds(${varName}Bounds.toNearestInt());`);
-    }
   }
 
+  // Group contents are placed alongside the group by generateAbsoluteLayout()
+  if (layoutVar && !isIRGroupNode(child)) lines.push(...generateNestedLayout(child, layoutVar, layoutBounds));
+
   return lines;
 }
 
+/**
+ * A child's rectangle inside its parent's bounds: from its constraints, or
+ * proportional to the parent.
+ */
+function generateChildRect(child: IRNode, parentW: number, parentH: number, parentBoundsExpr: string): string {
+  if (child.constraints) return generateConstrainedBounds(child, parentW, parentH, parentBoundsExpr);
+
+  // Proportional coordinates relative to parent
+  const b = child.bounds;
+  const xProp = parentW > 0 ? child.relativeX / parentW : 0;
+  const yProp = parentH > 0 ? child.relativeY / parentH : 0;
+  const wProp = parentW > 0 ? b.width / parentW : 0;
+  const hProp = parentH > 0 ? b.height / parentH : 0;
+  return `${parentBoundsExpr}.getProportion(juce::Rectangle<float>(${toFloat(xProp)}, ${toFloat(yProp)}, ${toFloat(wProp)}, ${toFloat(hProp)}))`;
+}
+
 // ─── Constraint-based Layout ────────────────────────────────────────────────
 
 function generateConstrainedBounds(
@@ -100,9 +219,7 @@ function generateConstrainedBounds(
   parentW: number,
   parentH: number,
   parentBoundsExpr: string,
-): string[] {
-  const lines: string[] = [];
-  const varName = toVariableName(child.name);
+): string {
   const c = child.constraints!;
   const b = child.bounds;
 
@@ -111,11 +228,7 @@ function generateConstrainedBounds(
   const wExpr = generateWidthConstraint(c.horizontal, child.relativeX, b.width, parentW, parentBoundsExpr);
   const hExpr = generateHeightConstraint(c.vertical, child.relativeY, b.height, parentH, parentBoundsExpr);
 
-  lines.push(
-    `auto ${varName}Bounds = juce::Rectangle<int>(${xExpr}, ${yExpr}, ${wExpr}, ${hExpr});`,
-  );
-
-  return lines;
+  return `juce::Rectangle<int>(${xExpr}, ${yExpr}, ${wExpr}, ${hExpr})`;
 }
 
 function generateHorizontalConstraint(
@@ -217,15 +330,19 @@ function generateHeightConstraint(
 // ─── FlexBox Layout ─────────────────────────────────────────────────────────
 
 /**
- * Generate juce::FlexBox code for an auto-layout frame.
+ * Generate juce::FlexBox code for an auto-layout frame. Absolutely positioned
+ * children are left out of the flex pass and placed by their constraints.
  */
 export function generateFlexBoxLayout(
   frame: IRFrameNode,
   boundsExpr: string,
-  nestedComponents: NestedComponentInfo[] = []
+  nestedComponents: NestedComponentInfo[] = [],
+  layoutBounds: Map<string, string> = new Map(),
+  memberNames?: Map<string, string>,
 ): string[] {
   const lines: string[] = [];
   const al = frame.autoLayout!;
+  const baselineAligned = al.counterAxisAlign === 'baseline' && al.mode === 'horizontal';
 
   lines.push(`juce::FlexBox fb;`);
   lines.push(`fb.flexDirection = ${mapFlexDirection(al.mode)};`);
@@ -236,17 +353,39 @@ export function generateFlexBoxLayout(
     lines.push(`fb.flexWrap = juce::FlexBox::Wrap::wrap;`);
   }
 
-  // Add items
   const visibleChildren = frame.children.filter(c => c.visible);
-  for (let i = 0; i < visibleChildren.length; i++) {
-    const child = visibleChildren[i];
-    const varName = toVariableName(child.name);
+  const varNames = memberNames ?? toMemberNames(visibleChildren);
+  const flowChildren = visibleChildren.filter(c => c.layoutPositioning !== 'absolute');
+  const absoluteChildren = visibleChildren.filter(c => c.layoutPositioning === 'absolute');
+
+  // Baseline alignment: items move down until their first baselines line up
+  if (baselineAligned && flowChildren.length > 0) {
+    const baselineVars = flowChildren.map(c => `${varNames.get(c.id)}Baseline`);
+    flowChildren.forEach((child, i) => {
+      lines.push(`const float ${baselineVars[i]} = ${firstBaseline(child) ?? toFloat(child.bounds.height)};`);
+    });
+    lines.push(`const float baseline = ${baselineVars.length > 1 ? `std::max({ ${baselineVars.join(', ')} })` : baselineVars[0]};`);
+  }
+
+  // Wrapped items are spaced by half-gaps on every side (the layout area grows
+  // to match), so rows and columns start flush wherever they break
+  const mainGap = al.itemSpacing;
+  const crossGap = al.wrap ? al.counterAxisSpacing ?? 0 : 0;
+  const horizontal = al.mode === 'horizontal';
+  const wrapGapX = al.wrap ? (horizontal ? mainGap : crossGap) / 2 : 0;
+  const wrapGapY = al.wrap ? (horizontal ? crossGap : mainGap) / 2 : 0;
+
+  // Add items
+  for (let i = 0; i < flowChildren.length; i++) {
+    const child = flowChildren[i];
+    const varName = varNames.get(child.id)!;
     const isNestedComponent = nestedComponents.some(nc => nc.node.id === child.id);
-    const hint = detectComponentHint(child.name);
+    const hint = memberNames && detectComponentHint(child.name);
 
     const w = child.bounds.width;
     const h = child.bounds.height;
-    const grow = child.layoutGrow ?? 0;
+    const fillsMain = fillsAxis(child, al.mode, al.mode);
+    const fillsCross = fillsAxis(child, horizontal ? 'vertical' : 'horizontal', al.mode);
 
     // For nested components or JUCE components, associate the FlexItem with the actual component
     let itemExpr = '';
@@ -255,44 +394,334 @@ export function generateFlexBoxLayout(
     } else {
       itemExpr = `juce::FlexItem(${toFloat(w)}, ${toFloat(h)})`;
     }
-    
-    if (grow > 0) {
-      itemExpr += `.withFlex(${toFloat(grow)})`;
+
+    // Fill items share the free space; fixed and hug items keep their size
+    // (Figma has already sized hugging items to their content)
+    if (fillsMain) {
+      itemExpr += `.withFlex(${toFloat((child.layoutGrow ?? 0) > 0 ? child.layoutGrow! : 1)})`;
+    } else {
+      itemExpr += `.withFlex(0.0f, 0.0f)`;
     }
-    if (child.layoutAlign === 'stretch') {
+    if (fillsCross) {
       itemExpr += `.withAlignSelf(juce::FlexItem::AlignSelf::stretch)`;
     }
+    if (child.minWidth !== undefined) itemExpr += `.withMinWidth(${toFloat(child.minWidth)})`;
+    if (child.maxWidth !== undefined) itemExpr += `.withMaxWidth(${toFloat(child.maxWidth)})`;
+    if (child.minHeight !== undefined) itemExpr += `.withMinHeight(${toFloat(child.minHeight)})`;
+    if (child.maxHeight !== undefined) itemExpr += `.withMaxHeight(${toFloat(child.maxHeight)})`;
+
     // Apply itemSpacing as margin between items
-    if (al.itemSpacing > 0 && i > 0) {
-      if (al.mode === 'horizontal') {
-        itemExpr += `.withMargin(juce::FlexItem::Margin(0.0f, 0.0f, 0.0f, ${toFloat(al.itemSpacing)}))`;
-      } else {
-        itemExpr += `.withMargin(juce::FlexItem::Margin(${toFloat(al.itemSpacing)}, 0.0f, 0.0f, 0.0f))`;
-      }
+    const margin = { top: wrapGapY, right: wrapGapX, bottom: wrapGapY, left: wrapGapX };
+    if (!al.wrap && i > 0) {
+      if (horizontal) margin.left = mainGap;
+      else margin.top = mainGap;
+    }
+    const top = baselineAligned && !fillsCross
+      ? `${margin.top > 0 ? `${toFloat(margin.top)} + ` : ''}baseline - ${varName}Baseline`
+      : toFloat(margin.top);
+    if (top !== '0.0f' || margin.right > 0 || margin.bottom > 0 || margin.left > 0) {
+      itemExpr += `.withMargin(juce::FlexItem::Margin(${top}, ${toFloat(margin.right)}, ${toFloat(margin.bottom)}, ${toFloat(margin.left)}))`;
     }
 
     lines.push(`fb.items.add(${itemExpr});`);
   }
 
+  // Hug-content axes keep the size Figma gave the container (the size of its
+  // content) instead of following the parent. A laid-out container's member
+  // takes that size, so paint() draws it there too.
+  let containerExpr = boundsExpr;
+  const hugged = huggedBounds(frame, boundsExpr, layoutBounds.has(frame.id));
+  if (hugged && layoutBounds.has(frame.id)) {
+    lines.push(`${boundsExpr} = ${hugged};`);
+  } else if (hugged) {
+    containerExpr = hugged;
+  }
+
   // Perform layout with padding
-  const padT = al.paddingTop;
-  const padR = al.paddingRight;
-  const padB = al.paddingBottom;
-  const padL = al.paddingLeft;
-
-  if (padT > 0 || padR > 0 || padB > 0 || padL > 0) {
-    lines.push(
-      `fb.performLayout(${boundsExpr}.reduced(${toInt(padL)}, ${toInt(padT)}, ${toInt(padR)}, ${toInt(padB)}));`,
-    );
-  } else {
-    lines.push(`fb.performLayout(${boundsExpr});`);
+  let areaExpr = paddedArea(containerExpr, al.paddingTop, al.paddingRight, al.paddingBottom, al.paddingLeft);
+  if (wrapGapX > 0 || wrapGapY > 0) {
+    areaExpr = `${areaExpr}.toFloat().expanded(${toFloat(wrapGapX)}, ${toFloat(wrapGapY)})`;
+  }
+  lines.push(`fb.performLayout(${areaExpr});`);
+
+  // Inline-drawn items keep their laid-out bounds for paint()
+  flowChildren.forEach((child, i) => {
+    const layoutVar = layoutBounds.get(child.id);
+    if (layoutVar) lines.push(`${layoutVar} = fb.items[${i}].currentBounds;`);
+  });
+
+  // Then the items' own children, inside the bounds just computed
+  for (const child of flowChildren) {
+    const layoutVar = layoutBounds.get(child.id);
+    if (layoutVar) lines.push(...generateNestedLayout(child, layoutVar, layoutBounds, memberNames));
+  }
+
+  // Absolutely positioned children ignore the flow and follow their constraints
+  const { width, height } = frame.bounds;
+  lines.push(...generateAbsoluteLayout(absoluteChildren, width, height, boundsExpr, nestedComponents, layoutBounds, memberNames));
+
+  return lines;
+}
+
+/**
+ * True when an auto-layout child fills its parent along an axis: set
+ * explicitly, or (in older files) via layoutGrow on the main axis and
+ * layoutAlign STRETCH on the cross axis.
+ */
+function fillsAxis(child: IRNode, axis: IRAutoLayout['mode'], parentMode: IRAutoLayout['mode']): boolean {
+  const sizing = axis === 'horizontal' ? child.layoutSizingHorizontal : child.layoutSizingVertical;
+  if (sizing) return sizing === 'fill';
+  return axis === parentMode ? (child.layoutGrow ?? 0) > 0 : child.layoutAlign === 'stretch';
+}
+
+/**
+ * C++ expression for the distance from the top of a node to its first text
+ * baseline, or undefined when it contains no text.
+ */
+function firstBaseline(node: IRNode): string | undefined {
+  if (isIRTextNode(node)) return generateFirstBaseline(node);
+  if (!isIRFrameNode(node) && !isIRGroupNode(node)) return undefined;
+
+  for (const child of node.children) {
+    if (!child.visible) continue;
+    const baseline = firstBaseline(child);
+    if (baseline) return child.relativeY !== 0 ? `${toFloat(child.relativeY)} + ${baseline}` : baseline;
   }
+  return undefined;
+}
+
+// ─── Grid Layout ────────────────────────────────────────────────────────────
+
+/**
+ * Generate juce::Grid code for a grid frame. Children go in the cells they
+ * were placed in, or else snap to the nearest span of tracks. An axis the
+ * frame has no grid for keeps each child's own placement along it.
+ */
+export function generateGridLayout(
+  frame: IRFrameNode,
+  boundsExpr: string,
+  nestedComponents: NestedComponentInfo[] = [],
+  layoutBounds: Map<string, string> = new Map(),
+  memberNames?: Map<string, string>,
+): string[] {
+  const lines: string[] = [];
+  const grid = frame.grid!;
+  const { width, height } = frame.bounds;
+  const single: IRGridAxis = { tracks: [{ size: 1, unit: 'fr' }], gap: 0, align: 'stretch' };
+  const columns = grid.columns ?? single;
+  const rows = grid.rows ?? single;
+
+  lines.push(`juce::Grid grid;`);
+  lines.push(...generateGridTracks('templateColumns', columns.tracks));
+  lines.push(...generateGridTracks('templateRows', rows.tracks));
+  if (columns.gap > 0) lines.push(`grid.columnGap = juce::Grid::Px(${toFloat(columns.gap)});`);
+  if (rows.gap > 0) lines.push(`grid.rowGap = juce::Grid::Px(${toFloat(rows.gap)});`);
+  if (columns.tracks.some(t => t.unit === 'px')) {
+    lines.push(`grid.justifyContent = juce::Grid::JustifyContent::${mapGridAlign(columns.align)};`);
+  }
+  if (rows.tracks.some(t => t.unit === 'px')) {
+    lines.push(`grid.alignContent = juce::Grid::AlignContent::${mapGridAlign(rows.align)};`);
+  }
+
+  const visibleChildren = frame.children.filter(c => c.visible);
+  const varNames = memberNames ?? toMemberNames(visibleChildren);
+  const cellChildren = visibleChildren.filter(c => c.layoutPositioning !== 'absolute');
+  const absoluteChildren = visibleChildren.filter(c => c.layoutPositioning === 'absolute');
+
+  // Cells, as 1-based grid lines
+  const columnEdges = trackEdges(columns, width, grid.paddingLeft, grid.paddingRight);
+  const rowEdges = trackEdges(rows, height, grid.paddingTop, grid.paddingBottom);
+  for (const child of cellChildren) {
+    const placed = child.gridPlacement;
+    const [column, columnSpan] = placed ? [placed.column, placed.columnSpan] : snapToTracks(child.relativeX, child.bounds.width, columnEdges);
+    const [row, rowSpan] = placed ? [placed.row, placed.rowSpan] : snapToTracks(child.relativeY, child.bounds.height, rowEdges);
+    lines.push(`grid.items.add(juce::GridItem().withArea(${row + 1}, ${column + 1}, ${row + rowSpan + 1}, ${column + columnSpan + 1}));`);
+  }
+
+  // Nested containers lay out in float member bounds
+  const area = paddedArea(boundsExpr, grid.paddingTop, grid.paddingRight, grid.paddingBottom, grid.paddingLeft);
+  lines.push(`grid.performLayout(${memberNames ? area : `${area}.toNearestInt()`});`);
+
+  cellChildren.forEach((child, i) => {
+    const varName = varNames.get(child.id)!;
+    const cell = `grid.items[${i}].currentBounds`;
+    let rect = cell;
+    if (!grid.columns || !grid.rows) {
+      const own = `${generateChildRect(child, width, height, boundsExpr)}.toFloat()`;
+      rect = grid.columns
+        ? `${own}.withHorizontalRange(${cell}.getHorizontalRange())`
+        : `${own}.withVerticalRange(${cell}.getVerticalRange())`;
+    }
+
+    const layoutVar = layoutBounds.get(child.id);
+    const isNestedComponent = nestedComponents.some(nc => nc.node.id === child.id);
+    const hint = memberNames && detectComponentHint(child.name);
+    if (layoutVar) lines.push(`${layoutVar} = ${rect};`);
+    if (isNestedComponent || hint) lines.push(`${varName}.setBounds(${layoutVar ?? rect}.toNearestInt());`);
+  });
+
+  // Then the cells' own children, inside the bounds just computed
+  for (const child of cellChildren) {
+    const layoutVar = layoutBounds.get(child.id);
+    if (layoutVar) lines.push(...generateNestedLayout(child, layoutVar, layoutBounds, memberNames));
+  }
+
+  // Absolutely positioned children ignore the grid and follow their constraints
+  lines.push(...generateAbsoluteLayout(absoluteChildren, width, height, boundsExpr, nestedComponents, layoutBounds, memberNames));
 
   return lines;
 }
 
+/**
+ * Assign a grid's tracks, with a loop when they are all the same.
+ * JUCE fractions are whole numbers, so fr sizes are rounded.
+ */
+function generateGridTracks(property: 'templateColumns' | 'templateRows', tracks: IRGridTrack[]): string[] {
+  const trackExprs = tracks.map(t => t.unit === 'fr'
+    ? `juce::Grid::TrackInfo(juce::Grid::Fr(${Math.max(1, Math.round(t.size))}))`
+    : `juce::Grid::TrackInfo(juce::Grid::Px(${toFloat(t.size)}))`);
+
+  if (trackExprs.length > 1 && trackExprs.every(e => e === trackExprs[0])) {
+    return [
+      `for (int i = 0; i < ${trackExprs.length}; ++i)`,
+      `    grid.${property}.add(${trackExprs[0]});`,
+    ];
+  }
+  return [`grid.${property} = { ${trackExprs.join(', ')} };`];
+}
+
+/**
+ * Start and end of each track along an axis of the Figma frame.
+ */
+function trackEdges(axis: IRGridAxis, size: number, padStart: number, padEnd: number): [number, number][] {
+  const available = size - padStart - padEnd;
+  const gaps = axis.gap * (axis.tracks.length - 1);
+  const fixed = axis.tracks.reduce((sum, t) => sum + (t.unit === 'px' ? t.size : 0), 0);
+  const fractions = axis.tracks.reduce((sum, t) => sum + (t.unit === 'fr' ? t.size : 0), 0);
+  const free = Math.max(0, available - gaps - fixed);
+  const sizes = axis.tracks.map(t => (t.unit === 'px' ? t.size : fractions > 0 ? (free * t.size) / fractions : 0));
+
+  const total = sizes.reduce((sum, s) => sum + s, 0) + gaps;
+  let position = padStart;
+  if (axis.align === 'center') position += (available - total) / 2;
+  if (axis.align === 'max') position += available - total;
+
+  return sizes.map(s => {
+    const edges: [number, number] = [position, position + s];
+    position += s + axis.gap;
+    return edges;
+  });
+}
+
+/**
+ * The run of tracks whose outer edges are nearest a child's edges,
+ * as [first track, track count].
+ */
+function snapToTracks(start: number, length: number, edges: [number, number][]): [number, number] {
+  const end = start + length;
+  let first = 0;
+  edges.forEach(([s], i) => {
+    if (Math.abs(s - start) < Math.abs(edges[first][0] - start)) first = i;
+  });
+  let last = first;
+  edges.forEach(([, e], i) => {
+    if (i > first && Math.abs(e - end) < Math.abs(edges[last][1] - end)) last = i;
+  });
+  return [first, last - first + 1];
+}
+
+function paddedArea(boundsExpr: string, top: number, right: number, bottom: number, left: number): string {
+  if (top === 0 && right === 0 && bottom === 0 && left === 0) return boundsExpr;
+  if (left === right && top === bottom) return `${boundsExpr}.reduced(${toInt(left)}, ${toInt(top)})`;
+  const trims = [['Top', top], ['Right', right], ['Bottom', bottom], ['Left', left]] as const;
+  return boundsExpr + trims.filter(([, v]) => v !== 0).map(([side, v]) => `.withTrimmed${side}(${toInt(v)})`).join('');
+}
+
+function mapGridAlign(align: IRGridAxis['align']): string {
+  switch (align) {
+    case 'center': return 'center';
+    case 'max': return 'end';
+    case 'stretch': return 'stretch';
+    default: return 'start';
+  }
+}
+
+// ─── Nested Layout ──────────────────────────────────────────────────────────
+
+/**
+ * True when a node contains an auto-layout or grid frame (itself included).
+ */
+function containsLayoutFrame(node: IRNode): boolean {
+  if (isIRFrameNode(node) && (node.autoLayout || node.grid)) return true;
+  return (isIRFrameNode(node) || isIRGroupNode(node)) && node.children.some(c => c.visible && containsLayoutFrame(c));
+}
+
+/**
+ * True when resized() lays out a container's children: group contents are
+ * constrained to the enclosing frame, and frames lay out their children when
+ * auto-layout or a grid has to run at or below them. Other frames' children
+ * are mapped onto the frame's layout bounds in paint().
+ */
+function laysOutChildren(node: IRNode): node is IRFrameNode | IRGroupNode {
+  return isIRGroupNode(node) || (isIRFrameNode(node) && containsLayoutFrame(node));
+}
+
+/**
+ * Lay out an inline container's children inside its layout bounds: a scoped
+ * FlexBox or Grid for auto-layout and grid frames, proportional/constrained
+ * placement otherwise.
+ */
+function generateNestedLayout(
+  container: IRNode,
+  boundsVar: string,
+  layoutBounds: Map<string, string>,
+  memberNames?: Map<string, string>,
+): string[] {
+  if (!laysOutChildren(container) || !container.children.some(c => layoutBounds.has(c.id))) return [];
+
+  if (isIRFrameNode(container) && container.autoLayout) {
+    return [
+      `// ${container.name} auto-layout`,
+      `{`,
+      ...generateFlexBoxLayout(container, boundsVar, [], layoutBounds).map(l => `    ${l}`),
+      `}`,
+    ];
+  }
+
+  if (isIRFrameNode(container) && container.grid) {
+    return [
+      `// ${container.name} grid`,
+      `{`,
+      ...generateGridLayout(container, boundsVar, [], layoutBounds).map(l => `    ${l}`),
+      `}`,
+    ];
+  }
+
+  const { width, height } = container.bounds;
+  return generateAbsoluteLayout(container.children, width, height, boundsVar, [], layoutBounds, memberNames);
+}
+
 // ─── FlexBox Mapping Helpers ────────────────────────────────────────────────
 
+/**
+ * The container's bounds cut to its Figma size along its hug-content axes,
+ * or undefined when neither axis hugs. Float members take float sizes.
+ */
+function huggedBounds(frame: IRFrameNode, boundsExpr: string, isFloat: boolean): string | undefined {
+  const al = frame.autoLayout!;
+  const primaryHugs = al.primaryAxisSizing === 'auto';
+  const counterHugs = al.counterAxisSizing === 'auto';
+  const hugsWidth = al.mode === 'horizontal' ? primaryHugs : counterHugs;
+  const hugsHeight = al.mode === 'horizontal' ? counterHugs : primaryHugs;
+  const size = (v: number) => isFloat ? toFloat(v) : toInt(v);
+  const { width, height } = frame.bounds;
+
+  if (hugsWidth && hugsHeight) return `${boundsExpr}.withSize(${size(width)}, ${size(height)})`;
+  if (hugsWidth) return `${boundsExpr}.withWidth(${size(width)})`;
+  if (hugsHeight) return `${boundsExpr}.withHeight(${size(height)})`;
+  return undefined;
+}
+
 function mapFlexDirection(mode: 'horizontal' | 'vertical'): string {
   return mode === 'horizontal'
     ? 'juce::FlexBox::Direction::row'
@@ -313,6 +742,6 @@ function mapAlignItems(align: IRAutoLayout['counterAxisAlign']): string {
     case 'min': return 'juce::FlexBox::AlignItems::flexStart';
     case 'center': return 'juce::FlexBox::AlignItems::center';
     case 'max': return 'juce::FlexBox::AlignItems::flexEnd';
-    case 'baseline': return 'juce::FlexBox::AlignItems::stretch';
+    case 'baseline': return 'juce::FlexBox::AlignItems::flexStart'; // Offset per item by margins
   }
 }
@@ -0,0 +1,130 @@
+// Figma corner smoothing: JUCE only has circular corners, so smoothed
+// (squircle) rectangles are built by the FigmaSquircle.h helper.
+
+import type { IRNode, IRCornerRadius } from '../ir/types.js';
+import { hasIRChildren, isIRRectangleNode, isIRFrameNode } from '../ir/types.js';
+import { toFloat } from '../utils/math.js';
+
+export const SQUIRCLE_HELPER_FILE_NAME = 'FigmaSquircle.h';
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * True when rounded corners should be drawn smoothed rather than circular.
+ */
+export function isSmoothed(cr: IRCornerRadius): boolean {
+  const rounded = cr.topLeft > 0 || cr.topRight > 0 || cr.bottomRight > 0 || cr.bottomLeft > 0;
+  return rounded && (cr.smoothing ?? 0) > 0;
+}
+
+/**
+ * True when any visible rectangle or frame in the tree has smoothed corners.
+ */
+export function usesCornerSmoothing(node: IRNode): boolean {
+  if (!node.visible) return false;
+  if ((isIRRectangleNode(node) || isIRFrameNode(node)) && isSmoothed(node.cornerRadius)) return true;
+  return hasIRChildren(node) && node.children.some(usesCornerSmoothing);
+}
+
+/**
+ * Add a smoothed rounded rectangle to a juce::Path, with every radius grown
+ * (or shrunk, when negative) by spread.
+ */
+export function generateSquirclePath(pathVar: string, area: string, cr: IRCornerRadius, spread = 0): string {
+  const radii = [cr.topLeft, cr.topRight, cr.bottomRight, cr.bottomLeft].map(r => toFloat(Math.max(0, r + spread)));
+  return `FigmaSquircle::addRoundedRectangle(${pathVar}, ${area}, ${radii.join(', ')}, ${toFloat(cr.smoothing ?? 0)});`;
+}
+
+/**
+ * Generate FigmaSquircle.h: Figma's smoothed corners, each a circular arc
+ * shortened by the smoothing and joined to the edges by two cubic curves
+ * (as described in Figma's "Desperately seeking squircles").
+ */
+export function generateSquircleHelperHeader(): string {
+  return `#pragma once
+
+#include <juce_gui_basics/juce_gui_basics.h>
+#include <cmath>
+
+// Smoothed (squircle) rounded rectangles for Figma corner smoothing
+
+namespace FigmaSquircle
+{
+    namespace detail
+    {
+        struct Corner { float radius, p, a, b, c, d, arcAngle, arcLength; };
+
+        /**
+         * Measure one corner. A corner may use at most half the shorter side;
+         * when that is too little room, smoothing is reduced first.
+         */
+        inline Corner measure(float radius, float smoothing, float budget)
+        {
+            Corner k {};
+            k.radius = juce::jlimit(0.0f, budget, radius);
+            if (k.radius <= 0.0f)
+                return k;
+
+            smoothing = juce::jlimit(0.0f, budget / k.radius - 1.0f, smoothing);
+            k.p = juce::jmin((1.0f + smoothing) * k.radius, budget);
+            k.arcAngle = juce::MathConstants<float>::halfPi * (1.0f - smoothing);
+            k.arcLength = std::sin(k.arcAngle * 0.5f) * k.radius * juce::MathConstants<float>::sqrt2;
+
+            const float alpha = (juce::MathConstants<float>::halfPi - k.arcAngle) * 0.5f;
+            const float beta = juce::MathConstants<float>::pi * 0.25f * smoothing;
+            k.c = k.radius * std::tan(alpha * 0.5f) * std::cos(beta);
+            k.d = k.c * std::tan(beta);
+            k.b = (k.p - k.arcLength - k.c - k.d) / 3.0f;
+            k.a = 2.0f * k.b;
+            return k;
+        }
+    }
+
+    /**
+     * Add a rounded rectangle with Figma-style smoothed corners to a path,
+     * clockwise from the top edge. Smoothing runs from 0 (circular) to 1.
+     */
+    inline void addRoundedRectangle(juce::Path& path, juce::Rectangle<float> bounds,
+                                    float topLeft, float topRight, float bottomRight, float bottomLeft,
+                                    float smoothing)
+    {
+        const float budget = juce::jmin(bounds.getWidth(), bounds.getHeight()) * 0.5f;
+        const juce::Point<float> corners[] = { bounds.getTopRight(), bounds.getBottomRight(), bounds.getBottomLeft(), bounds.getTopLeft() };
+        const float radii[] = { topRight, bottomRight, bottomLeft, topLeft };
+
+        // Direction of travel along the edge leading into each corner
+        const juce::Point<float> directions[] = { { 1.0f, 0.0f }, { 0.0f, 1.0f }, { -1.0f, 0.0f }, { 0.0f, -1.0f } };
+
+        for (int i = 0; i < 4; ++i)
+        {
+            const auto k = detail::measure(radii[i], smoothing, budget);
+            const auto u = directions[i];
+            const auto v = directions[(i + 1) % 4];
+            const auto corner = corners[i];
+
+            const auto start = corner - u * k.p;
+            if (i == 0)
+                path.startNewSubPath(start);
+            else
+                path.lineTo(start);
+
+            if (k.radius <= 0.0f)
+                continue;
+
+            path.cubicTo(start + u * k.a, start + u * (k.a + k.b), start + u * (k.a + k.b + k.c) + v * k.d);
+
+            const auto centre = corner - u * k.radius + v * k.radius;
+            const auto outward = u - v;
+            const float mid = std::atan2(outward.x, -outward.y);
+            path.addCentredArc(centre.x, centre.y, k.radius, k.radius, 0.0f,
+                               mid - k.arcAngle * 0.5f, mid + k.arcAngle * 0.5f, false);
+
+            const auto arcEnd = path.getCurrentPosition();
+            path.cubicTo(arcEnd + u * k.d + v * k.c, arcEnd + u * k.d + v * (k.b + k.c), corner + v * k.p);
+        }
+
+        path.closeSubPath();
+    }
+}
+`;
+}
@@ -4,21 +4,20 @@
  * Generate the .h header file content for a JUCE Component class.
  * @param childMembers Optional array of {varName, comment} for child component placeholders.
  * @param imageMembers Optional array of {varName, comment, fileName?} for image asset members.
+ * @param hasHitTest Declare a hitTest() override (rounded frames that clip their content).
+ * @param extraIncludes Optional headers the members need (e.g. FigmaClip.h).
+ * @param protectedMembers Optional members that instance override subclasses paint with.
  */
 export function generateHeader(
   className: string,
   guardName: string,
   childMembers: { varName: string; comment: string; declaration?: string }[] = [],
   imageMembers: { varName: string; comment: string; fileName?: string }[] = [],
+  hasHitTest = false,
+  extraIncludes: string[] = [],
+  protectedMembers: { declaration: string }[] = [],
 ): string {
-  let membersBlock = '';
-  
-  if (imageMembers.length > 0) {
-    membersBlock += '\n    // Image assets (load from BinaryData or file in constructor)\n';
-    membersBlock += imageMembers
-      .map(m => `    juce::Image ${m.varName}; // ${m.comment}`)
-      .join('\n') + '\n';
-  }
+  let membersBlock = generateImageMemberDeclarations(imageMembers);
   
   if (childMembers.length > 0) {
     membersBlock += '\n' + childMembers
@@ -36,7 +35,7 @@ export function generateHeader(
   return `#pragma once
 
 #include <juce_gui_basics/juce_gui_basics.h>
-
+${extraIncludes.map(f => `#include "${f}"\n`).join('')}
 class ${className} : public juce::Component
 {
 public:
@@ -44,8 +43,8 @@ public:
     ~${className}() override = default;
 
     void paint(juce::Graphics& g) override;
-    void resized() override;
-
+    void resized() override;${hasHitTest ? '\n    bool hitTest(int x, int y) override;' : ''}
+${protectedMembers.length > 0 ? `\nprotected:${generateMemberDeclarations(protectedMembers)}` : ''}
 private:${membersBlock}
     JUCE_DECLARE_NON_COPYABLE_WITH_LEAK_DETECTOR(${className})
 };
@@ -57,6 +56,8 @@ private:${membersBlock}
  * @param imageMembers Optional array of {varName, comment, fileName?} for image loading code.
  *   When fileName is provided (image was downloaded), generates BinaryData loading code.
  *   Otherwise generates TODO comments with examples.
+ * @param extraIncludes Optional headers to include after the class header (e.g. DesignTokens.h).
+ * @param hitTestBody Optional hitTest() body; pair with hasHitTest in generateHeader.
  */
 export function generateImplementation(
   className: string,
@@ -65,6 +66,8 @@ export function generateImplementation(
   resizedBody: string,
   imageMembers: { varName: string; comment: string; fileName?: string }[] = [],
   childMembers: { varName: string; constructorLines?: string[] }[] = [],
+  extraIncludes: string[] = [],
+  hitTestBody: string | null = null,
 ): string {
   const paintLines = indentBlock(paintBody, '    ');
   const resizedLines = indentBlock(resizedBody, '    ');
@@ -83,34 +86,9 @@ export function generateImplementation(
     }
   }
   
-  if (imageMembers.length > 0) {
-    const downloadedImages = imageMembers.filter(img => img.fileName);
-    const pendingImages = imageMembers.filter(img => !img.fileName);
-    
-    if (downloadedImages.length > 0) {
-      constructorBody += '    // Load images from BinaryData (add downloaded images to your JUCE project\'s BinaryData)\n';
-      for (const img of downloadedImages) {
-        // Convert filename to BinaryData identifier: image_abc123.png → image_abc123_png
-        const binaryName = img.fileName!.replace(/\./g, '_');
-        constructorBody += `    ${img.varName} = juce::ImageFileFormat::loadFrom(BinaryData::${binaryName}, BinaryData::${binaryName}Size);\n`;
-      }
-      constructorBody += '\n';
-    }
-    
-    if (pendingImages.length > 0) {
-      constructorBody += '    // TODO: Load images from resources or files\n';
-      constructorBody += '    // Example with BinaryData:\n';
-      for (const img of pendingImages) {
-        constructorBody += `    // ${img.varName} = juce::ImageFileFormat::loadFrom(BinaryData::${img.varName}_png, BinaryData::${img.varName}_pngSize);\n`;
-      }
-      constructorBody += '    // Or from file:\n';
-      for (const img of pendingImages) {
-        constructorBody += `    // ${img.varName} = juce::ImageFileFormat::loadFrom(juce::File("path/to/${img.varName}.png"));\n`;
-      }
-    }
-  }
+  constructorBody += generateImageLoading(imageMembers);
 
-  return `#include "${headerFileName}"
+  return `${generateIncludes(headerFileName, extraIncludes)}
 
 ${className}::${className}()
 {${constructorBody}
@@ -125,9 +103,158 @@ void ${className}::resized()
 {
 ${resizedLines}
 }
+${hitTestBody ? `
+bool ${className}::hitTest(int x, int y)
+{
+${indentBlock(hitTestBody, '    ')}
+}
+` : ''}`;
+}
+
+/**
+ * Generate the .h header file content for a juce::Button subclass built from
+ * a Figma component set. Each variant gets its own private paint method.
+ * @param cacheMembers Optional image caches (e.g. blurs), dropped in resized().
+ */
+export function generateButtonHeader(
+  className: string,
+  variantMethods: { name: string; comment: string }[],
+  imageMembers: { varName: string; comment: string; fileName?: string }[] = [],
+  cacheMembers: { declaration: string }[] = [],
+): string {
+  let membersBlock = '\n' + variantMethods
+    .map(m => `    void ${m.name}(juce::Graphics& g); // ${m.comment}`)
+    .join('\n') + '\n';
+  membersBlock += generateImageMemberDeclarations(imageMembers);
+  membersBlock += generateMemberDeclarations(cacheMembers);
+
+  return `#pragma once
+
+#include <juce_gui_basics/juce_gui_basics.h>
+
+class ${className} : public juce::Button
+{
+public:
+    ${className}();
+    ~${className}() override = default;
+
+    void paintButton(juce::Graphics& g, bool shouldDrawButtonAsHighlighted, bool shouldDrawButtonAsDown) override;${cacheMembers.length > 0 ? '\n    void resized() override;' : ''}
+
+private:${membersBlock}
+    JUCE_DECLARE_NON_COPYABLE_WITH_LEAK_DETECTOR(${className})
+};
+`;
+}
+
+/**
+ * Generate the .cpp implementation file content for a juce::Button subclass.
+ * @param buttonName Name passed to the juce::Button constructor (already escaped).
+ * @param isToggle Whether the set has on/off variants (enables clickingTogglesState).
+ * @param resizedBody Optional resized() body; pair with cacheMembers in generateButtonHeader.
+ */
+export function generateButtonImplementation(
+  className: string,
+  headerFileName: string,
+  buttonName: string,
+  paintButtonBody: string,
+  variantMethods: { name: string; paintBody: string }[],
+  isToggle: boolean,
+  imageMembers: { varName: string; comment: string; fileName?: string }[] = [],
+  extraIncludes: string[] = [],
+  resizedBody = '',
+): string {
+  let constructorBody = '';
+  if (isToggle) {
+    constructorBody += '\n    setClickingTogglesState(true);';
+  }
+  const imageLoading = generateImageLoading(imageMembers).trimEnd();
+  if (imageLoading) {
+    constructorBody += '\n' + imageLoading;
+  }
+
+  const methods = variantMethods
+    .map(m => `void ${className}::${m.name}(juce::Graphics& g)
+{
+${indentBlock(m.paintBody, '    ')}
+}
+`)
+    .join('\n');
+
+  return `${generateIncludes(headerFileName, extraIncludes)}
+
+${className}::${className}()
+    : juce::Button("${buttonName}")
+{${constructorBody}
+}
+
+void ${className}::paintButton(juce::Graphics& g, bool shouldDrawButtonAsHighlighted, bool shouldDrawButtonAsDown)
+{
+${indentBlock(paintButtonBody, '    ')}
+}
+${generateResizedMethod(className, resizedBody)}
+${methods}`;
+}
+
+/**
+ * Generate the .h header file content for an instance whose art overrides its
+ * main component. It derives from the shared class and only repaints.
+ * @param instanceName Figma name of the instance, kept as a comment.
+ * @param cacheMembers Optional image caches (e.g. blurs), dropped in resized().
+ */
+export function generateOverrideHeader(
+  className: string,
+  baseClassName: string,
+  instanceName: string,
+  imageMembers: { varName: string; comment: string; fileName?: string }[] = [],
+  cacheMembers: { declaration: string }[] = [],
+): string {
+  return `#pragma once
+
+#include "${baseClassName}.h"
+
+// ${instanceName} — instance of ${baseClassName} with overridden content
+class ${className} : public ${baseClassName}
+{
+public:
+    ${className}();
+    ~${className}() override = default;
+
+    void paint(juce::Graphics& g) override;${cacheMembers.length > 0 ? '\n    void resized() override;' : ''}
+
+private:${generateImageMemberDeclarations(imageMembers)}${generateMemberDeclarations(cacheMembers)}
+    JUCE_DECLARE_NON_COPYABLE_WITH_LEAK_DETECTOR(${className})
+};
 `;
 }
 
+/**
+ * Generate the .cpp implementation file content for an instance override class.
+ * @param resizedBody Optional resized() body; pair with cacheMembers in generateOverrideHeader.
+ */
+export function generateOverrideImplementation(
+  className: string,
+  headerFileName: string,
+  paintBody: string,
+  imageMembers: { varName: string; comment: string; fileName?: string }[] = [],
+  extraIncludes: string[] = [],
+  resizedBody = '',
+): string {
+  const imageLoading = generateImageLoading(imageMembers).trimEnd();
+  const constructorBody = imageLoading ? '\n' + imageLoading : '';
+
+  return `${generateIncludes(headerFileName, extraIncludes)}
+
+${className}::${className}()
+{${constructorBody}
+}
+
+void ${className}::paint(juce::Graphics& g)
+{
+${indentBlock(paintBody, '    ')}
+}
+${generateResizedMethod(className, resizedBody)}`;
+}
+
 /**
  * Generate an include-guard-safe name from a class name.
  */
@@ -139,6 +266,67 @@ export function toGuardName(className: string): string {
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
+function generateIncludes(headerFileName: string, extraIncludes: string[]): string {
+  return [headerFileName, ...extraIncludes].map(f => `#include "${f}"`).join('\n');
+}
+
+function generateMemberDeclarations(members: { declaration: string }[]): string {
+  if (members.length === 0) return '';
+  return '\n' + members.map(m => `    ${m.declaration}`).join('\n') + '\n';
+}
+
+function generateResizedMethod(className: string, resizedBody: string): string {
+  if (!resizedBody) return '';
+  return `
+void ${className}::resized()
+{
+${indentBlock(resizedBody, '    ')}
+}
+`;
+}
+
+function generateImageMemberDeclarations(
+  imageMembers: { varName: string; comment: string }[],
+): string {
+  if (imageMembers.length === 0) return '';
+  return '\n    // Image assets (load from BinaryData or file in constructor)\n' +
+    imageMembers
+      .map(m => `    juce::Image ${m.varName}; // ${m.comment}`)
+      .join('\n') + '\n';
+}
+
+function generateImageLoading(
+  imageMembers: { varName: string; fileName?: string }[],
+): string {
+  let code = '';
+  const downloadedImages = imageMembers.filter(img => img.fileName);
+  const pendingImages = imageMembers.filter(img => !img.fileName);
+
+  if (downloadedImages.length > 0) {
+    code += '    // Load images from BinaryData (add downloaded images to your JUCE project\'s BinaryData)\n';
+    for (const img of downloadedImages) {
+      // Convert filename to BinaryData identifier: image_abc123.png → image_abc123_png
+      const binaryName = img.fileName!.replace(/\./g, '_');
+      code += `    ${img.varName} = juce::ImageFileFormat::loadFrom(BinaryData::${binaryName}, BinaryData::${binaryName}Size);\n`;
+    }
+    code += '\n';
+  }
+
+  if (pendingImages.length > 0) {
+    code += '    // TODO: Load images from resources or files\n';
+    code += '    // Example with BinaryData:\n';
+    for (const img of pendingImages) {
+      code += `    // ${img.varName} = juce::ImageFileFormat::loadFrom(BinaryData::${img.varName}_png, BinaryData::${img.varName}_pngSize);\n`;
+    }
+    code += '    // Or from file:\n';
+    for (const img of pendingImages) {
+      code += `    // ${img.varName} = juce::ImageFileFormat::loadFrom(juce::File("path/to/${img.varName}.png"));\n`;
+    }
+  }
+
+  return code;
+}
+
 function indentBlock(code: string, indent: string): string {
   if (!code.trim()) return `${indent}// (empty)`;
   return code
@@ -10,6 +10,10 @@ import { toFloat, toInt } from '../utils/math.js';
  * Generate C++ lines to draw a text node (font setup + drawText/drawFittedText).
  */
 export function generateTextDraw(node: IRTextNode, boundsExpr: string): string[] {
+  if (node.runs && node.runs.length > 1) {
+    return generateAttributedTextDraw(node, boundsExpr);
+  }
+
   const lines: string[] = [];
   const style = node.textStyle;
 
@@ -17,7 +21,7 @@ export function generateTextDraw(node: IRTextNode, boundsExpr: string): string[]
   lines.push(...generateFontSetup(style));
 
   // Colour
-  lines.push(`g.setColour(${generateColourWithOpacity(style.color, 1.0)});`);
+  lines.push(`g.setColour(${generateColourWithOpacity(style.color, 1.0, style.colorToken)});`);
 
   // Draw
   const text = escapeCppString(node.characters);
@@ -39,15 +43,59 @@ export function generateTextDraw(node: IRTextNode, boundsExpr: string): string[]
   return lines;
 }
 
+/**
+ * Draw mixed-style text: one AttributedString run per style, laid out with a TextLayout.
+ */
+function generateAttributedTextDraw(node: IRTextNode, boundsExpr: string): string[] {
+  const lines: string[] = [];
+  const style = node.textStyle;
+
+  lines.push(`{`);
+  lines.push(`    juce::AttributedString text;`);
+  lines.push(`    text.setJustification(${mapJustification(style.textAlignHorizontal, style.textAlignVertical)});`);
+  if (node.autoResize === 'widthAndHeight') {
+    lines.push(`    text.setWordWrap(juce::AttributedString::WordWrap::none);`);
+  }
+  for (const run of node.runs!) {
+    lines.push(
+      `    text.append("${escapeCppString(run.characters)}", ${fontExpression(run.style)}, ${generateColourWithOpacity(run.style.color, 1.0, run.style.colorToken)});`,
+    );
+  }
+  lines.push(``);
+  lines.push(`    juce::TextLayout layout;`);
+  lines.push(`    layout.createLayout(text, ${boundsExpr}.getWidth());`);
+  lines.push(`    layout.draw(g, ${boundsExpr});`);
+  lines.push(`}`);
+
+  return lines;
+}
+
+/**
+ * Distance from the top of a text node's box to its first baseline, from the
+ * font's metrics and the node's vertical alignment (as a single line).
+ */
+export function generateFirstBaseline(node: IRTextNode): string {
+  const font = fontExpression(node.textStyle);
+  const height = toFloat(node.bounds.height);
+  switch (node.textStyle.textAlignVertical) {
+    case 'top': return `${font}.getAscent()`;
+    case 'center': return `(${height} - ${font}.getHeight()) * 0.5f + ${font}.getAscent()`;
+    case 'bottom': return `${height} - ${font}.getDescent()`;
+  }
+}
+
 // ─── Font Setup ─────────────────────────────────────────────────────────────
 
 function generateFontSetup(style: IRTextStyle): string[] {
   const lines: string[] = [];
-  const fontExpr = buildFontExpression(style);
-  lines.push(`g.setFont(${fontExpr});`);
+  lines.push(`g.setFont(${fontExpression(style)});`);
   return lines;
 }
 
+function fontExpression(style: IRTextStyle): string {
+  return style.fontToken ? `Fonts::${style.fontToken}()` : buildFontExpression(style);
+}
+
 /**
  * Build a juce::Font(...) expression from text style.
  */
@@ -125,7 +173,10 @@ function estimateMaxLines(node: IRTextNode): number {
   return Math.max(1, Math.floor(node.bounds.height / (node.textStyle.fontSize * 1.2)));
 }
 
-function escapeCppString(str: string): string {
+/**
+ * Escape a string for use inside a C++ string literal.
+ */
+export function escapeCppString(str: string): string {
   return str
     .replace(/\\/g, '\\\\')
     .replace(/"/g, '\\"')
@@ -0,0 +1,54 @@
+// Generate DesignTokens.h: colours and fonts shared by every generated
+// component, one per Figma fill or text style the design uses.
+
+import type { IRDesignTokens, IRNode } from '../ir/types.js';
+import { hasIRChildren, isIRTextNode } from '../ir/types.js';
+import { colourToHex } from './colour.js';
+import { buildFontExpression } from './text.js';
+
+export const DESIGN_TOKENS_FILE_NAME = 'DesignTokens.h';
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Generate the DesignTokens.h content: a Colours namespace of constants and a
+ * Fonts namespace of factory functions.
+ */
+export function generateDesignTokensHeader(tokens: IRDesignTokens): string {
+  let content = `#pragma once
+
+#include <juce_gui_basics/juce_gui_basics.h>
+
+// Design tokens generated from Figma styles
+`;
+
+  if (tokens.colours.length > 0) {
+    content += `
+namespace Colours
+{
+${tokens.colours.map(t => `    const juce::Colour ${t.name}{${colourToHex(t.color)}}; // ${t.styleName}`).join('\n')}
+}
+`;
+  }
+
+  if (tokens.fonts.length > 0) {
+    content += `
+namespace Fonts
+{
+${tokens.fonts.map(t => `    inline juce::Font ${t.name}() { return ${buildFontExpression(t.style)}; } // ${t.styleName}`).join('\n')}
+}
+`;
+  }
+
+  return content;
+}
+
+/**
+ * True when any fill, stroke or text style in the tree references a token.
+ */
+export function usesDesignTokens(node: IRNode): boolean {
+  if (node.fills.some(f => f.type === 'solid' && f.token)) return true;
+  if (node.strokes.some(s => s.token)) return true;
+  if (isIRTextNode(node) && (node.textStyle.colorToken || node.textStyle.fontToken)) return true;
+  return hasIRChildren(node) && node.children.some(usesDesignTokens);
+}
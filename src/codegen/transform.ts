@@ -0,0 +1,66 @@
+// Generate juce::AffineTransform expressions for rotated, skewed or flipped nodes.
+//
+// Only the linear part of a transform is used: positions come from the
+// node's axis-aligned bounds, so shapes are transformed about their centre.
+
+import type { IRTransform } from '../ir/types.js';
+import { toFloat } from '../utils/math.js';
+
+const EPSILON = 1e-6;
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * True when the transform rotates, skews or flips (ignoring translation).
+ */
+export function hasLinearTransform(t: IRTransform | undefined): t is IRTransform {
+  if (!t) return false;
+  return (
+    Math.abs(t.m00 - 1) > EPSILON ||
+    Math.abs(t.m01) > EPSILON ||
+    Math.abs(t.m10) > EPSILON ||
+    Math.abs(t.m11 - 1) > EPSILON
+  );
+}
+
+/**
+ * Combine a parent's linear transform with a child's (child applied first).
+ */
+export function composeTransforms(parent: IRTransform | undefined, child: IRTransform | undefined): IRTransform | undefined {
+  if (!parent) return child;
+  if (!child) return parent;
+  return {
+    m00: parent.m00 * child.m00 + parent.m01 * child.m10,
+    m01: parent.m00 * child.m01 + parent.m01 * child.m11,
+    m02: 0,
+    m10: parent.m10 * child.m00 + parent.m11 * child.m10,
+    m11: parent.m10 * child.m01 + parent.m11 * child.m11,
+    m12: 0,
+  };
+}
+
+/**
+ * Build a juce::AffineTransform expression applying the transform's linear
+ * part about the point (cx, cy). Pure rotations use AffineTransform::rotation.
+ */
+export function generateTransformExpr(t: IRTransform, cx: string, cy: string): string {
+  const det = t.m00 * t.m11 - t.m01 * t.m10;
+  const isRotation =
+    Math.abs(t.m00 - t.m11) < EPSILON &&
+    Math.abs(t.m01 + t.m10) < EPSILON &&
+    Math.abs(det - 1) < EPSILON;
+
+  if (isRotation) {
+    const degrees = (Math.atan2(t.m10, t.m00) * 180) / Math.PI;
+    return `juce::AffineTransform::rotation(juce::degreesToRadians(${toFloat(degrees)}), ${cx}, ${cy})`;
+  }
+
+  const matrix = `juce::AffineTransform(${toFloat(t.m00)}, ${toFloat(t.m01)}, 0.0f, ${toFloat(t.m10)}, ${toFloat(t.m11)}, 0.0f)`;
+  return `juce::AffineTransform::translation(${negate(cx)}, ${negate(cy)}).followedBy(${matrix}).translated(${cx}, ${cy})`;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function negate(expr: string): string {
+  return expr.startsWith('-') ? expr.slice(1) : `-${expr}`;
+}
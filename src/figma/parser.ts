@@ -14,17 +14,22 @@ import type {
   FigmaLineNode,
   FigmaBooleanOperationNode,
   FigmaComponentNode,
+  FigmaComponentSetNode,
   FigmaInstanceNode,
   FigmaPaint,
   FigmaEffect,
   FigmaColor,
   FigmaSceneNodeBase,
   FigmaFrameMixin,
+  FigmaLayoutGrid,
   FigmaCornerMixin,
   FigmaRect,
+  FigmaTransform,
   FigmaTypeStyle,
   FigmaPathGeometry,
   FigmaColorStop,
+  FigmaVector,
+  FigmaStyleMeta,
 } from './types.js';
 
 import {
@@ -38,6 +43,7 @@ import {
   isLineNode,
   isBooleanOperationNode,
   isComponentNode,
+  isComponentSetNode,
   isInstanceNode,
   isCanvasNode,
   isDocumentNode,
@@ -48,6 +54,8 @@ import type {
   IRNode,
   IRFrameNode,
   IRGroupNode,
+  IRComponentSetNode,
+  IRVariantProperty,
   IRRectangleNode,
   IREllipseNode,
   IRTextNode,
@@ -60,6 +68,8 @@ import type {
   IRSolidFill,
   IRLinearGradientFill,
   IRRadialGradientFill,
+  IRAngularGradientFill,
+  IRDiamondGradientFill,
   IRImageFill,
   IRStroke,
   IREffect,
@@ -68,11 +78,20 @@ import type {
   IRBlur,
   IRCornerRadius,
   IRTextStyle,
+  IRTextRun,
   IRAutoLayout,
+  IRLayoutSizing,
+  IRGridLayout,
+  IRGridAxis,
+  IRGridTrack,
   IRConstraints,
   IRPathData,
   IRNodeBase,
+  IRTransform,
+  IRDesignTokens,
 } from '../ir/types.js';
+import { hasIRChildren, isIRTextNode } from '../ir/types.js';
+import { toVariableName } from '../utils/naming.js';
 
 // ─── Public API ─────────────────────────────────────────────────────────────
 
@@ -91,6 +110,7 @@ export function parseFigmaFile(response: FigmaFileResponse): IRDocument {
   return {
     name: response.name,
     pages,
+    tokens: extractDesignTokens(response.document, response.styles ?? {}, pages),
   };
 }
 
@@ -121,6 +141,106 @@ function parseCanvasNode(canvas: FigmaCanvasNode): IRPage {
   };
 }
 
+// ─── Design Tokens ──────────────────────────────────────────────────────────
+
+/**
+ * Turn the fill and text styles referenced by nodes into named tokens, and tag
+ * each fill, stroke and text style that uses one with the token's name.
+ * Figma only lists style metadata, so a token takes its value from the first
+ * node that uses the style.
+ */
+function extractDesignTokens(
+  document: FigmaNode,
+  styles: Record<string, FigmaStyleMeta>,
+  pages: IRPage[],
+): IRDesignTokens {
+  const tokens: IRDesignTokens = { colours: [], fonts: [] };
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+
+  const tokenName = (styleId: string, styleType: FigmaStyleMeta['styleType']): string | undefined => {
+    const meta = styles[styleId];
+    if (!meta || meta.styleType !== styleType) return undefined;
+    let name = names.get(styleId);
+    if (!name) {
+      const base = toVariableName(meta.name);
+      name = base;
+      for (let i = 2; used.has(name); i++) name = `${base}${i}`;
+      used.add(name);
+      names.set(styleId, name);
+    }
+    return name;
+  };
+
+  const colourToken = (styleId: string | undefined, color: IRColor): string | undefined => {
+    if (!styleId) return undefined;
+    const isNew = !names.has(styleId);
+    const name = tokenName(styleId, 'FILL');
+    if (name && isNew) {
+      tokens.colours.push({ name, styleName: styles[styleId].name, color });
+    }
+    return name;
+  };
+
+  // Style references are only on the Figma nodes; IR nodes keep the same IDs
+  const styleRefs = new Map<string, Record<string, string>>();
+  const collect = (node: FigmaNode) => {
+    const refs = (node as FigmaSceneNodeBase).styles;
+    if (refs) styleRefs.set(node.id, refs);
+    if (hasChildren(node)) node.children.forEach(collect);
+  };
+  collect(document);
+
+  const visit = (node: IRNode) => {
+    const refs = styleRefs.get(node.id);
+    if (refs) {
+      const fill = node.fills.find((f): f is IRSolidFill => f.type === 'solid' && f.visible);
+      const fillToken = fill && colourToken(refs.fill ?? refs.fills, fill.color);
+      if (fill && fillToken) {
+        fill.token = fillToken;
+        if (isIRTextNode(node)) node.textStyle.colorToken = fillToken;
+      }
+
+      const stroke = node.strokes.find(s => s.visible && !s.paint);
+      const strokeToken = stroke && colourToken(refs.stroke ?? refs.strokes, stroke.color);
+      if (stroke && strokeToken) {
+        stroke.token = strokeToken;
+      }
+
+      if (isIRTextNode(node) && refs.text) {
+        const isNew = !names.has(refs.text);
+        const fontToken = tokenName(refs.text, 'TEXT');
+        if (fontToken) {
+          if (isNew) tokens.fonts.push({ name: fontToken, styleName: styles[refs.text].name, style: { ...node.textStyle } });
+          node.textStyle.fontToken = fontToken;
+        }
+      }
+
+      // Mixed-style text: runs keep the node's tokens where they don't override them
+      if (isIRTextNode(node) && node.runs) {
+        const base = node.textStyle;
+        for (const run of node.runs) {
+          if (base.colorToken && sameColour(run.style.color, base.color)) run.style.colorToken = base.colorToken;
+          if (base.fontToken && sameFont(run.style, base)) run.style.fontToken = base.fontToken;
+        }
+      }
+    }
+    if (hasIRChildren(node)) node.children.forEach(visit);
+  };
+  pages.forEach(page => page.children.forEach(visit));
+
+  return tokens;
+}
+
+function sameColour(a: IRColor, b: IRColor): boolean {
+  return a.r === b.r && a.g === b.g && a.b === b.b && a.a === b.a;
+}
+
+function sameFont(a: IRTextStyle, b: IRTextStyle): boolean {
+  return a.fontFamily === b.fontFamily && a.fontWeight === b.fontWeight && a.fontSize === b.fontSize
+    && a.italic === b.italic && a.letterSpacing === b.letterSpacing && a.lineHeight === b.lineHeight;
+}
+
 // ─── Node Conversion ────────────────────────────────────────────────────────
 
 function convertNode(node: FigmaNode, parentBounds: FigmaRect | null): IRNode | null {
@@ -136,6 +256,7 @@ function convertNode(node: FigmaNode, parentBounds: FigmaRect | null): IRNode |
 
   if (isFrameNode(node)) return convertFrameNode(node, 'frame', parentBounds);
   if (isComponentNode(node)) return convertFrameNode(node, 'component', parentBounds);
+  if (isComponentSetNode(node)) return convertComponentSetNode(node, parentBounds);
   if (isInstanceNode(node)) return convertInstanceNode(node, parentBounds);
   if (isGroupNode(node)) return convertGroupNode(node, parentBounds);
   if (isRectangleNode(node)) return convertRectangleNode(node, parentBounds);
@@ -145,7 +266,7 @@ function convertNode(node: FigmaNode, parentBounds: FigmaRect | null): IRNode |
   if (isLineNode(node)) return convertLineNode(node, parentBounds);
   if (isBooleanOperationNode(node)) return convertBooleanOperationNode(node, parentBounds);
 
-  // Unsupported node types (SECTION, COMPONENT_SET, SLICE, etc.) — skip
+  // Unsupported node types (SECTION, SLICE, etc.) — skip
   return null;
 }
 
@@ -166,6 +287,7 @@ function convertFrameNode(
     cornerRadius: extractCornerRadius(node),
     clipsContent: node.clipsContent ?? true,
     autoLayout: extractAutoLayout(node),
+    grid: extractGrid(node, bounds),
   };
 }
 
@@ -183,10 +305,35 @@ function convertInstanceNode(
     cornerRadius: extractCornerRadius(node),
     clipsContent: node.clipsContent ?? true,
     autoLayout: extractAutoLayout(node),
+    grid: extractGrid(node, bounds),
     componentId: node.componentId,
   };
 }
 
+function convertComponentSetNode(
+  node: FigmaComponentSetNode,
+  parentBounds: FigmaRect | null,
+): IRComponentSetNode {
+  const bounds = extractBounds(node);
+
+  // Each child is a variant component named like "State=Hover, Value=On"
+  const children: IRFrameNode[] = [];
+  for (const child of node.children) {
+    if (child.visible === false || !isComponentNode(child)) continue;
+    children.push({
+      ...convertFrameNode(child, 'component', bounds),
+      variantProperties: parseVariantName(child.name),
+    });
+  }
+
+  return {
+    ...extractBaseProperties(node, parentBounds),
+    type: 'componentSet',
+    children,
+    variantProperties: extractVariantProperties(node, children),
+  };
+}
+
 function convertGroupNode(
   node: FigmaGroupNode,
   parentBounds: FigmaRect | null,
@@ -239,7 +386,36 @@ function convertTextNode(
     characters: node.characters,
     textStyle: extractTextStyle(node.style),
     autoResize: convertTextAutoResize(node.textAutoResize),
+    runs: extractTextRuns(node),
+  };
+}
+
+/**
+ * Split text into runs of equal style using characterStyleOverrides.
+ * Each entry indexes styleOverrideTable; 0 (or a missing entry) means the base style.
+ * Returns undefined when the whole text uses a single style.
+ */
+function extractTextRuns(node: FigmaTextNode): IRTextRun[] | undefined {
+  const overrides = node.characterStyleOverrides ?? [];
+  const table = node.styleOverrideTable ?? {};
+  const styleIdAt = (i: number) => {
+    const id = overrides[i] ?? 0;
+    return table[id] ? id : 0;
   };
+
+  const runs: IRTextRun[] = [];
+  let start = 0;
+  for (let i = 1; i <= node.characters.length; i++) {
+    if (i < node.characters.length && styleIdAt(i) === styleIdAt(start)) continue;
+    const id = styleIdAt(start);
+    runs.push({
+      characters: node.characters.slice(start, i),
+      style: extractTextStyle(id === 0 ? node.style : { ...node.style, ...table[id] }),
+    });
+    start = i;
+  }
+
+  return runs.length > 1 ? runs : undefined;
 }
 
 // ─── Vector Nodes ───────────────────────────────────────────────────────────
@@ -278,6 +454,56 @@ function convertBooleanOperationNode(
   };
 }
 
+// ─── Variants ───────────────────────────────────────────────────────────────
+
+/**
+ * Parse a variant component name ("State=Hover, Value=On") into property values.
+ */
+function parseVariantName(name: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const part of name.split(',')) {
+    const eq = part.indexOf('=');
+    if (eq < 0) continue;
+    const key = part.slice(0, eq).trim();
+    const value = part.slice(eq + 1).trim();
+    if (key) values[key] = value;
+  }
+  return values;
+}
+
+function extractVariantProperties(
+  node: FigmaComponentSetNode,
+  variants: IRFrameNode[],
+): IRVariantProperty[] {
+  const properties: IRVariantProperty[] = [];
+
+  // Prefer the declared definitions; property keys may carry a "#id" suffix
+  for (const [key, def] of Object.entries(node.componentPropertyDefinitions ?? {})) {
+    if (def.type !== 'VARIANT') continue;
+    properties.push({
+      name: key.split('#')[0],
+      options: def.variantOptions ?? [],
+      defaultValue: String(def.defaultValue),
+    });
+  }
+  if (properties.length > 0) return properties;
+
+  // Fall back to the values found in the variant names (first variant is the default)
+  for (const variant of variants) {
+    for (const [name, value] of Object.entries(variant.variantProperties ?? {})) {
+      let property = properties.find((p) => p.name === name);
+      if (!property) {
+        property = { name, options: [], defaultValue: value };
+        properties.push(property);
+      }
+      if (!property.options.includes(value)) {
+        property.options.push(value);
+      }
+    }
+  }
+  return properties;
+}
+
 // ─── Children Conversion ────────────────────────────────────────────────────
 
 function convertChildren(
@@ -285,9 +511,16 @@ function convertChildren(
   parentBounds: FigmaRect | null,
 ): IRNode[] {
   const children: IRNode[] = [];
+  let maskId: string | undefined;
   for (const child of node.children) {
     const irNode = convertNode(child, parentBounds);
     if (irNode) {
+      // A visible mask clips every later sibling, up to the next mask
+      if (irNode.isMask) {
+        maskId = irNode.visible ? irNode.id : undefined;
+      } else if (maskId) {
+        irNode.maskedBy = maskId;
+      }
       children.push(irNode);
     }
   }
@@ -312,7 +545,14 @@ function extractBaseProperties(
     relativeX,
     relativeY,
     fills: convertFills(node.fills),
-    strokes: convertStrokes(node.strokes, node.strokeWeight, node.strokeAlign, node.strokeCap, node.strokeJoin),
+    strokes: convertStrokes(
+      node.strokes,
+      node.strokeWeight,
+      node.strokeAlign,
+      node.strokeCap,
+      node.strokeJoin,
+      node.strokeDashes,
+    ),
     effects: convertEffects(node.effects),
     blendMode: node.blendMode ?? 'PASS_THROUGH',
   };
@@ -328,15 +568,57 @@ function extractBaseProperties(
   if (frameMixin.layoutPositioning !== undefined) {
     base.layoutPositioning = frameMixin.layoutPositioning === 'ABSOLUTE' ? 'absolute' : 'auto';
   }
+  if (frameMixin.layoutSizingHorizontal !== undefined) {
+    base.layoutSizingHorizontal = convertLayoutSizing(frameMixin.layoutSizingHorizontal);
+  }
+  if (frameMixin.layoutSizingVertical !== undefined) {
+    base.layoutSizingVertical = convertLayoutSizing(frameMixin.layoutSizingVertical);
+  }
+  for (const key of ['minWidth', 'maxWidth', 'minHeight', 'maxHeight'] as const) {
+    const value = frameMixin[key];
+    if (typeof value === 'number') base[key] = value;
+  }
+  if (frameMixin.gridColumnAnchorIndex !== undefined && frameMixin.gridRowAnchorIndex !== undefined) {
+    base.gridPlacement = {
+      column: frameMixin.gridColumnAnchorIndex,
+      row: frameMixin.gridRowAnchorIndex,
+      columnSpan: Math.max(1, frameMixin.gridColumnSpan ?? 1),
+      rowSpan: Math.max(1, frameMixin.gridRowSpan ?? 1),
+    };
+  }
 
   // Constraints
   if (node.constraints) {
     base.constraints = convertConstraints(node.constraints);
   }
 
+  if (node.isMask) {
+    base.isMask = true;
+  }
+
+  // Rotation / skew
+  const transform = convertTransform(node.relativeTransform);
+  if (transform) {
+    base.transform = transform;
+    base.size = node.size ? { x: node.size.x, y: node.size.y } : { x: bounds.width, y: bounds.height };
+  }
+
   return base;
 }
 
+/**
+ * Convert a relativeTransform, returning undefined when the node is only translated.
+ */
+function convertTransform(t: FigmaTransform | undefined): IRTransform | undefined {
+  if (!t) return undefined;
+  const [[m00, m01, m02], [m10, m11, m12]] = [t[0], t[1]];
+  const eps = 1e-6;
+  if (Math.abs(m00 - 1) < eps && Math.abs(m01) < eps && Math.abs(m10) < eps && Math.abs(m11 - 1) < eps) {
+    return undefined;
+  }
+  return { m00, m01, m02, m10, m11, m12 };
+}
+
 function extractBounds(node: FigmaSceneNodeBase): IRBounds {
   const box = node.absoluteBoundingBox;
   if (box) {
@@ -410,6 +692,7 @@ function convertFill(paint: FigmaPaint): IRFill | null {
         type: 'linearGradient',
         start: { x: handles[0].x, y: handles[0].y },
         end: { x: handles[1].x, y: handles[1].y },
+        transform: convertGradientTransform(handles),
         stops: convertGradientStops(paint.gradientStops),
         opacity,
         visible,
@@ -433,29 +716,87 @@ function convertFill(paint: FigmaPaint): IRFill | null {
         type: 'radialGradient',
         center,
         radius,
+        transform: convertGradientTransform(handles),
         stops: convertGradientStops(paint.gradientStops),
         opacity,
         visible,
       } satisfies IRRadialGradientFill;
     }
 
+    case 'GRADIENT_ANGULAR': {
+      if (!paint.gradientHandlePositions || !paint.gradientStops) return null;
+      const handles = paint.gradientHandlePositions;
+      return {
+        type: 'angularGradient',
+        center: { x: handles[0].x, y: handles[0].y },
+        start: { x: handles[1].x, y: handles[1].y },
+        stops: convertGradientStops(paint.gradientStops),
+        opacity,
+        visible,
+      } satisfies IRAngularGradientFill;
+    }
+
+    case 'GRADIENT_DIAMOND': {
+      if (!paint.gradientHandlePositions || paint.gradientHandlePositions.length < 3 || !paint.gradientStops) return null;
+      const [center, a, b] = paint.gradientHandlePositions;
+      return {
+        type: 'diamondGradient',
+        center: { x: center.x, y: center.y },
+        axes: [
+          { x: a.x - center.x, y: a.y - center.y },
+          { x: b.x - center.x, y: b.y - center.y },
+        ],
+        stops: convertGradientStops(paint.gradientStops),
+        opacity,
+        visible,
+      } satisfies IRDiamondGradientFill;
+    }
+
     case 'IMAGE': {
       if (!paint.imageRef) return null;
       return {
         type: 'image',
         imageRef: paint.imageRef,
         scaleMode: (paint.scaleMode?.toLowerCase() ?? 'fill') as IRImageFill['scaleMode'],
+        transform: paint.scaleMode === 'CROP' && paint.imageTransform ? convertImageTransform(paint.imageTransform) : undefined,
+        scalingFactor: paint.scaleMode === 'TILE' && paint.scalingFactor && paint.scalingFactor > 0 ? paint.scalingFactor : undefined,
         opacity,
         visible,
       } satisfies IRImageFill;
     }
 
-    // Unsupported gradient types or emoji — skip
+    // Emoji and other unsupported paints — skip
     default:
       return null;
   }
 }
 
+/**
+ * Convert an image crop transform. Unlike a node transform it is kept when it
+ * only translates, since the offset is the crop position.
+ */
+function convertImageTransform(t: FigmaTransform): IRTransform {
+  const [[m00, m01, m02], [m10, m11, m12]] = [t[0], t[1]];
+  return { m00, m01, m02, m10, m11, m12 };
+}
+
+/**
+ * Map gradient space onto the three handles: the origin to handle 0, (1, 0)
+ * to handle 1 and (0, 1) to handle 2, in normalised bounds.
+ */
+function convertGradientTransform(handles: FigmaVector[]): IRTransform | undefined {
+  if (handles.length < 3) return undefined;
+  const [origin, u, v] = handles;
+  return {
+    m00: u.x - origin.x,
+    m01: v.x - origin.x,
+    m02: origin.x,
+    m10: u.y - origin.y,
+    m11: v.y - origin.y,
+    m12: origin.y,
+  };
+}
+
 function convertGradientStops(stops: FigmaColorStop[]): Array<{ position: number; color: IRColor }> {
   return stops.map((stop) => ({
     position: stop.position,
@@ -471,21 +812,23 @@ function convertStrokes(
   strokeAlign: string | undefined,
   strokeCap: string | undefined,
   strokeJoin: string | undefined,
+  strokeDashes: number[] | undefined,
 ): IRStroke[] {
   if (!strokes || strokes.length === 0) return [];
   const result: IRStroke[] = [];
 
   for (const stroke of strokes) {
     if (stroke.visible === false) continue;
-    if (stroke.type !== 'SOLID' || !stroke.color) continue;
+    const paint = convertFill(stroke);
+    if (!paint) continue;
 
     result.push({
-      color: convertColor(stroke.color),
+      ...convertStrokePaint(paint),
       weight: strokeWeight ?? 1,
       align: convertStrokeAlign(strokeAlign),
       cap: convertStrokeCap(strokeCap),
       join: convertStrokeJoin(strokeJoin),
-      dashes: [],
+      dashes: convertStrokeDashes(strokeDashes),
       opacity: stroke.opacity ?? 1,
       visible: true,
     });
@@ -494,6 +837,29 @@ function convertStrokes(
   return result;
 }
 
+function convertStrokePaint(paint: IRFill): Pick<IRStroke, 'color' | 'paint'> {
+  switch (paint.type) {
+    case 'solid':
+      return { color: paint.color };
+    case 'linearGradient':
+    case 'radialGradient':
+    case 'angularGradient':
+    case 'diamondGradient':
+      return { color: paint.stops[0]?.color ?? { r: 0, g: 0, b: 0, a: 1 }, paint };
+    case 'image':
+      return { color: { r: 0, g: 0, b: 0, a: 1 }, paint };
+  }
+}
+
+/**
+ * Dash pattern, or none for patterns that draw nothing useful: a negative
+ * length, or all zero (which would never advance along the path).
+ */
+function convertStrokeDashes(dashes: number[] | undefined): number[] {
+  if (!dashes || dashes.some(d => d < 0) || dashes.every(d => d === 0)) return [];
+  return dashes;
+}
+
 function convertStrokeAlign(align: string | undefined): IRStroke['align'] {
   switch (align) {
     case 'INSIDE': return 'inside';
@@ -581,6 +947,8 @@ function convertEffect(effect: FigmaEffect): IREffect | null {
 // ─── Corner Radius ──────────────────────────────────────────────────────────
 
 function extractCornerRadius(node: FigmaCornerMixin): IRCornerRadius {
+  const smoothing = node.cornerSmoothing && node.cornerSmoothing > 0 ? Math.min(node.cornerSmoothing, 1) : undefined;
+
   if (node.rectangleCornerRadii) {
     const [tl, tr, br, bl] = node.rectangleCornerRadii;
     return {
@@ -589,6 +957,7 @@ function extractCornerRadius(node: FigmaCornerMixin): IRCornerRadius {
       bottomRight: br,
       bottomLeft: bl,
       isUniform: tl === tr && tr === br && br === bl,
+      smoothing,
     };
   }
 
@@ -599,6 +968,7 @@ function extractCornerRadius(node: FigmaCornerMixin): IRCornerRadius {
     bottomRight: r,
     bottomLeft: r,
     isUniform: true,
+    smoothing,
   };
 }
 
@@ -667,7 +1037,7 @@ function convertTextAutoResize(autoResize: string | undefined): IRTextNode['auto
 // ─── Auto Layout ────────────────────────────────────────────────────────────
 
 function extractAutoLayout(node: FigmaFrameMixin): IRAutoLayout | undefined {
-  if (!node.layoutMode || node.layoutMode === 'NONE') {
+  if (!node.layoutMode || node.layoutMode === 'NONE' || node.layoutMode === 'GRID') {
     return undefined;
   }
 
@@ -683,6 +1053,7 @@ function extractAutoLayout(node: FigmaFrameMixin): IRAutoLayout | undefined {
     primaryAxisSizing: node.primaryAxisSizingMode === 'AUTO' ? 'auto' : 'fixed',
     counterAxisSizing: node.counterAxisSizingMode === 'AUTO' ? 'auto' : 'fixed',
     wrap: node.layoutWrap === 'WRAP',
+    counterAxisSpacing: node.layoutWrap === 'WRAP' ? node.counterAxisSpacing : undefined,
   };
 }
 
@@ -714,6 +1085,138 @@ function convertLayoutAlign(align: string | undefined): IRNodeBase['layoutAlign'
   }
 }
 
+// ─── Grids ──────────────────────────────────────────────────────────────────
+
+/**
+ * Grid a frame lays its children out on: its grid auto-layout, or else its
+ * first visible column and row layout grids.
+ */
+function extractGrid(node: FigmaFrameMixin, bounds: IRBounds): IRGridLayout | undefined {
+  if (node.layoutMode === 'GRID') {
+    return {
+      columns: {
+        tracks: parseGridTracks(node.gridColumnsSizing, node.gridColumnCount ?? 1),
+        gap: node.gridColumnGap ?? 0,
+        align: 'min',
+      },
+      rows: {
+        tracks: parseGridTracks(node.gridRowsSizing, node.gridRowCount ?? 1),
+        gap: node.gridRowGap ?? 0,
+        align: 'min',
+      },
+      paddingTop: node.paddingTop ?? 0,
+      paddingRight: node.paddingRight ?? 0,
+      paddingBottom: node.paddingBottom ?? 0,
+      paddingLeft: node.paddingLeft ?? 0,
+    };
+  }
+
+  if (node.layoutMode && node.layoutMode !== 'NONE') return undefined;
+  const visibleGrids = (node.layoutGrids ?? []).filter(g => g.visible !== false);
+  const columnGrid = visibleGrids.find(g => g.pattern === 'COLUMNS');
+  const rowGrid = visibleGrids.find(g => g.pattern === 'ROWS');
+  if (!columnGrid && !rowGrid) return undefined;
+
+  const grid: IRGridLayout = { paddingTop: 0, paddingRight: 0, paddingBottom: 0, paddingLeft: 0 };
+  if (columnGrid) {
+    grid.columns = convertLayoutGrid(columnGrid, bounds.width);
+    [grid.paddingLeft, grid.paddingRight] = layoutGridMargins(columnGrid);
+  }
+  if (rowGrid) {
+    grid.rows = convertLayoutGrid(rowGrid, bounds.height);
+    [grid.paddingTop, grid.paddingBottom] = layoutGridMargins(rowGrid);
+  }
+  return grid;
+}
+
+function convertLayoutGrid(grid: FigmaLayoutGrid, frameSize: number): IRGridAxis {
+  const stretch = grid.alignment === 'STRETCH';
+  const gutter = grid.gutterSize ?? 0;
+
+  // "Auto" counts fit as many fixed sections as the frame holds
+  let count = grid.count;
+  if (!(count > 0)) {
+    const margin = grid.alignment === 'CENTER' ? 0 : grid.offset ?? 0;
+    count = Math.max(1, Math.floor((frameSize - margin + gutter) / (grid.sectionSize + gutter)));
+  }
+
+  return {
+    tracks: Array.from({ length: count }, () => (stretch ? { size: 1, unit: 'fr' } : { size: grid.sectionSize, unit: 'px' })),
+    gap: gutter,
+    align: grid.alignment === 'MIN' ? 'min' : grid.alignment === 'MAX' ? 'max' : grid.alignment === 'CENTER' ? 'center' : 'stretch',
+  };
+}
+
+/**
+ * Margins before and after a layout grid's tracks: the offset applies to
+ * the side the grid is aligned to (both sides when stretched).
+ */
+function layoutGridMargins(grid: FigmaLayoutGrid): [number, number] {
+  const offset = grid.offset ?? 0;
+  switch (grid.alignment) {
+    case 'STRETCH': return [offset, offset];
+    case 'MIN': return [offset, 0];
+    case 'MAX': return [0, offset];
+    default: return [0, 0];
+  }
+}
+
+/**
+ * Parse a CSS-style track list such as "repeat(2, 1fr) 120px minmax(0, 1fr)".
+ * Tracks other than px and fr (auto, hug) share the free space; a missing
+ * or unreadable list gives count equal tracks.
+ */
+function parseGridTracks(sizing: string | undefined, count: number): IRGridTrack[] {
+  const tracks: IRGridTrack[] = [];
+  const parse = (list: string) => {
+    for (const token of splitTrackList(list)) {
+      const repeat = /^repeat\(\s*(\d+)\s*,(.*)\)$/.exec(token);
+      const minmax = /^minmax\(.*,(.*)\)$/.exec(token);
+      if (repeat) {
+        for (let i = 0; i < Number(repeat[1]); i++) parse(repeat[2]);
+      } else if (minmax) {
+        parse(minmax[1]);
+      } else {
+        const match = /^(\d*\.?\d+)(px|fr)?$/.exec(token);
+        tracks.push(match ? { size: Number(match[1]), unit: match[2] === 'fr' ? 'fr' : 'px' } : { size: 1, unit: 'fr' });
+      }
+    }
+  };
+  if (sizing) parse(sizing);
+
+  if (tracks.length === 0) {
+    return Array.from({ length: Math.max(1, count) }, () => ({ size: 1, unit: 'fr' }));
+  }
+  return tracks;
+}
+
+/** Split a track list on top-level whitespace (not inside parentheses). */
+function splitTrackList(list: string): string[] {
+  const tokens: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of list.trim()) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (/\s/.test(ch) && depth === 0) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+function convertLayoutSizing(sizing: string): IRLayoutSizing {
+  switch (sizing) {
+    case 'HUG': return 'hug';
+    case 'FILL': return 'fill';
+    default: return 'fixed';
+  }
+}
+
 // ─── Constraints ────────────────────────────────────────────────────────────
 
 function convertConstraints(constraints: { horizontal: string; vertical: string }): IRConstraints {
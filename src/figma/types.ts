@@ -96,7 +96,7 @@ export type FigmaConstraintVertical =
   | 'TOP_BOTTOM'
   | 'SCALE';
 
-export type FigmaLayoutMode = 'NONE' | 'HORIZONTAL' | 'VERTICAL';
+export type FigmaLayoutMode = 'NONE' | 'HORIZONTAL' | 'VERTICAL' | 'GRID';
 
 export type FigmaAxisSizingMode = 'FIXED' | 'AUTO';
 
@@ -112,6 +112,8 @@ export type FigmaLayoutAlign = 'INHERIT' | 'STRETCH' | 'MIN' | 'CENTER' | 'MAX';
 
 export type FigmaLayoutPositioning = 'AUTO' | 'ABSOLUTE';
 
+export type FigmaLayoutSizing = 'FIXED' | 'HUG' | 'FILL';
+
 export type FigmaFillType =
   | 'SOLID'
   | 'GRADIENT_LINEAR'
@@ -310,6 +312,7 @@ export interface FigmaSceneNodeBase extends FigmaBaseNode {
   strokeMiterAngle?: number;
   effects?: FigmaEffect[];
   isMask?: boolean;
+  styles?: Record<string, string>; // Style IDs by kind, e.g. { fill: '1:2', text: '1:3' }
   exportSettings?: FigmaExportSetting[];
   constraints?: FigmaConstraints;
   rotation?: number;
@@ -346,10 +349,23 @@ export interface FigmaFrameMixin {
   layoutWrap?: 'NO_WRAP' | 'WRAP';
   overflowDirection?: FigmaOverflowDirection;
   layoutGrids?: FigmaLayoutGrid[];
+  // Grid auto-layout (layoutMode GRID). Sizing is a CSS track list, e.g. "repeat(3, 1fr) 200px"
+  gridColumnCount?: number;
+  gridRowCount?: number;
+  gridColumnGap?: number;
+  gridRowGap?: number;
+  gridColumnsSizing?: string;
+  gridRowsSizing?: string;
   // Child-level auto-layout properties
   layoutAlign?: FigmaLayoutAlign;
   layoutGrow?: number;
   layoutPositioning?: FigmaLayoutPositioning;
+  layoutSizingHorizontal?: FigmaLayoutSizing;
+  layoutSizingVertical?: FigmaLayoutSizing;
+  gridColumnAnchorIndex?: number;
+  gridRowAnchorIndex?: number;
+  gridColumnSpan?: number;
+  gridRowSpan?: number;
   minWidth?: number;
   maxWidth?: number;
   minHeight?: number;
@@ -433,6 +449,12 @@ export interface FigmaTextNode extends FigmaSceneNodeBase {
   layoutAlign?: FigmaLayoutAlign;
   layoutGrow?: number;
   layoutPositioning?: FigmaLayoutPositioning;
+  layoutSizingHorizontal?: FigmaLayoutSizing;
+  layoutSizingVertical?: FigmaLayoutSizing;
+  gridColumnAnchorIndex?: number;
+  gridRowAnchorIndex?: number;
+  gridColumnSpan?: number;
+  gridRowSpan?: number;
 }
 
 export interface FigmaComponentNode extends FigmaSceneNodeBase, FigmaChildrenMixin, FigmaFrameMixin, FigmaCornerMixin {
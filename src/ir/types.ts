@@ -22,15 +22,26 @@ export interface IRVector2 {
   y: number;
 }
 
+// 2D affine transform in Figma's relativeTransform layout: [[m00, m01, m02], [m10, m11, m12]]
+export interface IRTransform {
+  m00: number;
+  m01: number;
+  m02: number;
+  m10: number;
+  m11: number;
+  m12: number;
+}
+
 // ─── Fills ───────────────────────────────────────────────────────────────────
 
-export type IRFillType = 'solid' | 'linearGradient' | 'radialGradient' | 'image';
+export type IRFillType = 'solid' | 'linearGradient' | 'radialGradient' | 'angularGradient' | 'diamondGradient' | 'image';
 
 export interface IRSolidFill {
   type: 'solid';
   color: IRColor;
   opacity: number;
   visible: boolean;
+  token?: string; // Colour token name, when the fill uses a Figma style
 }
 
 export interface IRGradientStop {
@@ -42,6 +53,9 @@ export interface IRLinearGradientFill {
   type: 'linearGradient';
   start: IRVector2;
   end: IRVector2;
+  // Gradient space (start (0,0) → end (1,0)) to normalised bounds, including
+  // the width handle's skew
+  transform?: IRTransform;
   stops: IRGradientStop[];
   opacity: number;
   visible: boolean;
@@ -51,6 +65,27 @@ export interface IRRadialGradientFill {
   type: 'radialGradient';
   center: IRVector2;
   radius: IRVector2;
+  // Unit circle at the origin to the gradient's (possibly rotated) ellipse in
+  // normalised bounds
+  transform?: IRTransform;
+  stops: IRGradientStop[];
+  opacity: number;
+  visible: boolean;
+}
+
+export interface IRAngularGradientFill {
+  type: 'angularGradient';
+  center: IRVector2;
+  start: IRVector2; // Handle the sweep starts from; runs clockwise around center
+  stops: IRGradientStop[];
+  opacity: number;
+  visible: boolean;
+}
+
+export interface IRDiamondGradientFill {
+  type: 'diamondGradient';
+  center: IRVector2;
+  axes: [IRVector2, IRVector2]; // Center → diamond corner offsets for the last stop
   stops: IRGradientStop[];
   opacity: number;
   visible: boolean;
@@ -60,16 +95,26 @@ export interface IRImageFill {
   type: 'image';
   imageRef: string;
   scaleMode: 'fill' | 'fit' | 'crop' | 'tile';
+  // Crop: normalised bounds to normalised image space (the visible part of the image)
+  transform?: IRTransform;
+  scalingFactor?: number; // Tile: size of each tile relative to the image's own size
   opacity: number;
   visible: boolean;
 }
 
-export type IRFill = IRSolidFill | IRLinearGradientFill | IRRadialGradientFill | IRImageFill;
+export type IRFill =
+  | IRSolidFill
+  | IRLinearGradientFill
+  | IRRadialGradientFill
+  | IRAngularGradientFill
+  | IRDiamondGradientFill
+  | IRImageFill;
 
 // ─── Strokes ─────────────────────────────────────────────────────────────────
 
 export interface IRStroke {
-  color: IRColor;
+  color: IRColor; // Solid colour, or the first gradient stop when paint is set
+  paint?: Exclude<IRFill, IRSolidFill>; // Gradient or image paint, drawn instead of color
   weight: number;
   align: 'inside' | 'outside' | 'center';
   cap: 'none' | 'round' | 'square';
@@ -77,6 +122,7 @@ export interface IRStroke {
   dashes: number[];
   opacity: number;
   visible: boolean;
+  token?: string; // Colour token name, when the stroke uses a Figma style
 }
 
 // ─── Effects ─────────────────────────────────────────────────────────────────
@@ -115,6 +161,7 @@ export interface IRCornerRadius {
   bottomRight: number;
   bottomLeft: number;
   isUniform: boolean;
+  smoothing?: number; // 0–1 corner smoothing (iOS-style squircle corners)
 }
 
 // ─── Text Style ──────────────────────────────────────────────────────────────
@@ -131,11 +178,19 @@ export interface IRTextStyle {
   textDecoration: 'none' | 'underline' | 'strikethrough';
   textCase: 'original' | 'upper' | 'lower' | 'title';
   color: IRColor;
+  colorToken?: string; // Colour token name, from the node's fill style
+  fontToken?: string; // Font token name, from the node's text style
+}
+
+// A span of text drawn in one style (from Figma character style overrides)
+export interface IRTextRun {
+  characters: string;
+  style: IRTextStyle;
 }
 
 // ─── Layout ──────────────────────────────────────────────────────────────────
 
-export type IRLayoutMode = 'none' | 'horizontal' | 'vertical';
+export type IRLayoutMode = 'none' | 'horizontal' | 'vertical' | 'grid';
 
 export interface IRAutoLayout {
   mode: 'horizontal' | 'vertical';
@@ -149,6 +204,41 @@ export interface IRAutoLayout {
   primaryAxisSizing: 'fixed' | 'auto';
   counterAxisSizing: 'fixed' | 'auto';
   wrap: boolean;
+  counterAxisSpacing?: number; // Gap between wrapped rows/columns
+}
+
+// How an auto-layout child sizes along one axis
+export type IRLayoutSizing = 'fixed' | 'hug' | 'fill';
+
+// One grid column or row: a fixed size in pixels, or a share (fr) of the free space
+export interface IRGridTrack {
+  size: number;
+  unit: 'px' | 'fr';
+}
+
+export interface IRGridAxis {
+  tracks: IRGridTrack[];
+  gap: number;
+  align: 'min' | 'center' | 'max' | 'stretch'; // Where fixed tracks sit in the frame
+}
+
+// Columns and/or rows a frame lays its children out on: Figma grid
+// auto-layout, or the frame's column and row layout grids
+export interface IRGridLayout {
+  columns?: IRGridAxis;
+  rows?: IRGridAxis;
+  paddingTop: number;
+  paddingRight: number;
+  paddingBottom: number;
+  paddingLeft: number;
+}
+
+// Cell a grid child occupies (0-based), when placed explicitly
+export interface IRGridPlacement {
+  column: number;
+  row: number;
+  columnSpan: number;
+  rowSpan: number;
 }
 
 export interface IRConstraints {
@@ -156,6 +246,14 @@ export interface IRConstraints {
   vertical: 'top' | 'bottom' | 'center' | 'topBottom' | 'scale';
 }
 
+// ─── Variants ────────────────────────────────────────────────────────────────
+
+export interface IRVariantProperty {
+  name: string; // e.g. "State"
+  options: string[]; // e.g. ["Default", "Hover", "Pressed", "Disabled"]
+  defaultValue: string;
+}
+
 // ─── Path (Vector) ───────────────────────────────────────────────────────────
 
 export interface IRPathData {
@@ -175,6 +273,7 @@ export type IRNodeType =
   | 'line'
   | 'booleanOperation'
   | 'component'
+  | 'componentSet'
   | 'instance';
 
 // Base properties for all IR nodes
@@ -192,10 +291,24 @@ export interface IRNodeBase {
   strokes: IRStroke[];
   effects: IREffect[];
   blendMode: string;
+  // Rotation/skew/flip relative to the parent. Only set when not axis-aligned;
+  // bounds then hold the axis-aligned bounding box and size the unrotated size.
+  transform?: IRTransform;
+  size?: IRVector2;
+  // Masking: a mask node is not drawn, it clips the siblings that follow it
+  isMask?: boolean;
+  maskedBy?: string; // ID of the sibling mask node clipping this node
   // Auto-layout child properties
   layoutAlign?: 'inherit' | 'stretch' | 'min' | 'center' | 'max';
   layoutGrow?: number;
   layoutPositioning?: 'auto' | 'absolute';
+  layoutSizingHorizontal?: IRLayoutSizing;
+  layoutSizingVertical?: IRLayoutSizing;
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  gridPlacement?: IRGridPlacement;
   constraints?: IRConstraints;
 }
 
@@ -206,8 +319,17 @@ export interface IRFrameNode extends IRNodeBase {
   cornerRadius: IRCornerRadius;
   clipsContent: boolean;
   autoLayout?: IRAutoLayout;
+  grid?: IRGridLayout;
   // Component-specific
   componentId?: string; // For instances, the component they reference
+  variantProperties?: Record<string, string>; // For variant components, e.g. { State: 'Hover' }
+}
+
+// Component set: a group of variant components (e.g. a button's states)
+export interface IRComponentSetNode extends IRNodeBase {
+  type: 'componentSet';
+  children: IRFrameNode[];
+  variantProperties: IRVariantProperty[];
 }
 
 export interface IRGroupNode extends IRNodeBase {
@@ -232,6 +354,7 @@ export interface IRTextNode extends IRNodeBase {
   characters: string;
   textStyle: IRTextStyle;
   autoResize: 'none' | 'height' | 'widthAndHeight' | 'truncate';
+  runs?: IRTextRun[]; // Only present when the text mixes several styles
 }
 
 export interface IRVectorNode extends IRNodeBase {
@@ -244,16 +367,38 @@ export interface IRVectorNode extends IRNodeBase {
 export type IRNode =
   | IRFrameNode
   | IRGroupNode
+  | IRComponentSetNode
   | IRRectangleNode
   | IREllipseNode
   | IRTextNode
   | IRVectorNode;
 
+// ─── Design Tokens ───────────────────────────────────────────────────────────
+
+// Named values shared by all components, from the Figma styles nodes reference
+export interface IRColourToken {
+  name: string; // C++ identifier, e.g. "brandAccent"
+  styleName: string; // Figma style name, e.g. "Brand/Accent"
+  color: IRColor;
+}
+
+export interface IRFontToken {
+  name: string;
+  styleName: string;
+  style: IRTextStyle;
+}
+
+export interface IRDesignTokens {
+  colours: IRColourToken[];
+  fonts: IRFontToken[];
+}
+
 // ─── Root Document ───────────────────────────────────────────────────────────
 
 export interface IRDocument {
   name: string;
   pages: IRPage[];
+  tokens?: IRDesignTokens;
 }
 
 export interface IRPage {
@@ -273,6 +418,10 @@ export function isIRGroupNode(node: IRNode): node is IRGroupNode {
   return node.type === 'group';
 }
 
+export function isIRComponentSetNode(node: IRNode): node is IRComponentSetNode {
+  return node.type === 'componentSet';
+}
+
 export function isIRRectangleNode(node: IRNode): node is IRRectangleNode {
   return node.type === 'rectangle';
 }
@@ -289,6 +438,15 @@ export function isIRVectorNode(node: IRNode): node is IRVectorNode {
   return node.type === 'vector' || node.type === 'line' || node.type === 'booleanOperation';
 }
 
-export function hasIRChildren(node: IRNode): node is IRFrameNode | IRGroupNode {
-  return isIRFrameNode(node) || isIRGroupNode(node);
+export function hasIRChildren(node: IRNode): node is IRFrameNode | IRGroupNode | IRComponentSetNode {
+  return isIRFrameNode(node) || isIRGroupNode(node) || isIRComponentSetNode(node);
+}
+
+/**
+ * True for visible children that become component members of their parent
+ * (frames, components, instances and component sets) rather than being drawn
+ * inline. Masks only clip their siblings.
+ */
+export function isIRNestedComponent(node: IRNode): node is IRFrameNode | IRComponentSetNode {
+  return node.visible && !node.isMask && (isIRFrameNode(node) || isIRComponentSetNode(node));
 }
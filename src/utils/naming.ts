@@ -24,6 +24,23 @@ export function toVariableName(name: string): string {
   return className.charAt(0).toLowerCase() + className.slice(1);
 }
 
+/**
+ * Map sibling node IDs to unique camelCase member names.
+ * Repeated names get a numeric suffix: "strip", "strip2", "strip3".
+ */
+export function toMemberNames(nodes: { id: string; name: string }[]): Map<string, string> {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+  for (const node of nodes) {
+    const base = toVariableName(node.name);
+    let name = base;
+    for (let i = 2; used.has(name); i++) name = `${base}${i}`;
+    used.add(name);
+    names.set(node.id, name);
+  }
+  return names;
+}
+
 /**
  * Sanitize a string to be a valid C++ identifier.
  */
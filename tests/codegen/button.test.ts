@@ -0,0 +1,231 @@
+import { describe, it, expect } from 'vitest';
+import { generateButtonVariants } from '../../src/codegen/button.js';
+import { generateButtonComponent, generateFromDocument } from '../../src/codegen/generator.js';
+import type {
+  IRComponentSetNode,
+  IRFrameNode,
+  IRCornerRadius,
+  IRVariantProperty,
+} from '../../src/ir/types.js';
+
+function makeCornerRadius(r: number): IRCornerRadius {
+  return { topLeft: r, topRight: r, bottomRight: r, bottomLeft: r, isUniform: true };
+}
+
+function makeVariant(id: string, props: Record<string, string>, grey: number): IRFrameNode {
+  return {
+    id,
+    name: Object.entries(props).map(([k, v]) => `${k}=${v}`).join(', '),
+    type: 'component',
+    visible: true,
+    opacity: 1,
+    bounds: { x: 0, y: 0, width: 80, height: 32 },
+    relativeX: 0,
+    relativeY: 0,
+    fills: [{ type: 'solid', color: { r: grey, g: grey, b: grey, a: 1 }, opacity: 1, visible: true }],
+    strokes: [],
+    effects: [],
+    blendMode: 'PASS_THROUGH',
+    children: [],
+    cornerRadius: makeCornerRadius(4),
+    clipsContent: true,
+    variantProperties: props,
+  };
+}
+
+function makeSet(
+  variants: IRFrameNode[],
+  variantProperties: IRVariantProperty[],
+  overrides: Partial<IRComponentSetNode> = {},
+): IRComponentSetNode {
+  return {
+    id: 'cs:1',
+    name: 'Power Button',
+    type: 'componentSet',
+    visible: true,
+    opacity: 1,
+    bounds: { x: 0, y: 0, width: 200, height: 200 },
+    relativeX: 0,
+    relativeY: 0,
+    fills: [],
+    strokes: [],
+    effects: [],
+    blendMode: 'PASS_THROUGH',
+    children: variants,
+    variantProperties,
+    ...overrides,
+  };
+}
+
+const STATE: IRVariantProperty = {
+  name: 'State',
+  options: ['Default', 'Hover', 'Pressed', 'Disabled'],
+  defaultValue: 'Default',
+};
+
+const VALUE: IRVariantProperty = { name: 'Value', options: ['Off', 'On'], defaultValue: 'Off' };
+
+function makeToggleSet(): IRComponentSetNode {
+  const variants: IRFrameNode[] = [];
+  let i = 0;
+  for (const state of STATE.options) {
+    for (const value of VALUE.options) {
+      variants.push(makeVariant(`v:${i}`, { State: state, Value: value }, 0.1 + i * 0.1));
+      i++;
+    }
+  }
+  return makeSet(variants, [STATE, VALUE]);
+}
+
+// ─── generateButtonVariants ─────────────────────────────────────────────────
+
+describe('generateButtonVariants', () => {
+  it('creates one paint method per variant', () => {
+    const info = generateButtonVariants(makeToggleSet());
+
+    expect(info.methods).toHaveLength(8);
+    expect(info.methods.map(m => m.name)).toContain('paintHoverOn');
+    expect(info.methods.map(m => m.name)).toContain('paintDisabledOff');
+    expect(info.isToggle).toBe(true);
+  });
+
+  it('dispatches on enabled, down, highlighted and toggle state', () => {
+    const { paintButtonBody } = generateButtonVariants(makeToggleSet());
+
+    expect(paintButtonBody).toContain('const bool isOn = getToggleState();');
+    expect(paintButtonBody).toContain('if (! isEnabled())\n    isOn ? paintDisabledOn(g) : paintDisabledOff(g);');
+    expect(paintButtonBody).toContain('else if (shouldDrawButtonAsDown)\n    isOn ? paintPressedOn(g) : paintPressedOff(g);');
+    expect(paintButtonBody).toContain('else if (shouldDrawButtonAsHighlighted)\n    isOn ? paintHoverOn(g) : paintHoverOff(g);');
+    expect(paintButtonBody).toContain('else\n    isOn ? paintDefaultOn(g) : paintDefaultOff(g);');
+  });
+
+  it('falls back to hover art when there is no pressed variant', () => {
+    const set = makeSet(
+      [
+        makeVariant('v:1', { State: 'Default' }, 0.2),
+        makeVariant('v:2', { State: 'Hover' }, 0.4),
+      ],
+      [{ name: 'State', options: ['Default', 'Hover'], defaultValue: 'Default' }],
+    );
+    const { paintButtonBody, isToggle } = generateButtonVariants(set);
+
+    expect(isToggle).toBe(false);
+    expect(paintButtonBody).not.toContain('isOn');
+    expect(paintButtonBody).not.toContain('shouldDrawButtonAsDown');
+    expect(paintButtonBody).not.toContain('isEnabled');
+    expect(paintButtonBody).toBe(
+      'if (shouldDrawButtonAsHighlighted)\n    paintHover(g);\nelse\n    paintDefault(g);',
+    );
+  });
+
+  it('keeps the toggle state when a hover variant is missing for it', () => {
+    const set = makeSet(
+      [
+        makeVariant('v:1', { State: 'Default', Value: 'Off' }, 0.2),
+        makeVariant('v:2', { State: 'Hover', Value: 'Off' }, 0.4),
+        makeVariant('v:3', { State: 'Default', Value: 'On' }, 0.6),
+      ],
+      [{ name: 'State', options: ['Default', 'Hover'], defaultValue: 'Default' }, VALUE],
+    );
+    const { paintButtonBody } = generateButtonVariants(set);
+
+    expect(paintButtonBody).toContain('if (shouldDrawButtonAsHighlighted)\n    isOn ? paintDefaultOn(g) : paintHoverOff(g);');
+  });
+
+  it('pins unrelated properties to their default value', () => {
+    const size: IRVariantProperty = { name: 'Size', options: ['Small', 'Large'], defaultValue: 'Large' };
+    const set = makeSet(
+      [
+        makeVariant('v:1', { State: 'Default', Size: 'Small' }, 0.2),
+        makeVariant('v:2', { State: 'Default', Size: 'Large' }, 0.4),
+      ],
+      [{ name: 'State', options: ['Default'], defaultValue: 'Default' }, size],
+    );
+    const { paintButtonBody } = generateButtonVariants(set);
+
+    expect(paintButtonBody).toBe('paintDefaultLarge(g);');
+  });
+
+  it('paints each variant with its own art', () => {
+    const info = generateButtonVariants(makeToggleSet());
+    const hoverOn = info.methods.find(m => m.name === 'paintHoverOn')!;
+
+    expect(hoverOn.paintBody).toContain('g.fillRoundedRectangle(getLocalBounds().toFloat(), 4.0f);');
+  });
+});
+
+// ─── generateButtonComponent ────────────────────────────────────────────────
+
+describe('generateButtonComponent', () => {
+  it('generates a juce::Button subclass', () => {
+    const component = generateButtonComponent(makeToggleSet());
+
+    expect(component.className).toBe('PowerButton');
+    expect(component.header.content).toContain('class PowerButton : public juce::Button');
+    expect(component.header.content).toContain(
+      'void paintButton(juce::Graphics& g, bool shouldDrawButtonAsHighlighted, bool shouldDrawButtonAsDown) override;',
+    );
+    expect(component.header.content).toContain('void paintHoverOn(juce::Graphics& g); // State=Hover, Value=On');
+    expect(component.implementation.content).toContain(': juce::Button("Power Button")');
+    expect(component.implementation.content).toContain('setClickingTogglesState(true);');
+    expect(component.implementation.content).toContain('void PowerButton::paintPressedOff(juce::Graphics& g)');
+  });
+
+  it('caches blurs across variants and drops them in resized()', () => {
+    const blur = { type: 'layerBlur' as const, radius: 6, visible: true };
+    const set = makeSet([
+      { ...makeVariant('v:0', { State: 'Default' }, 0.2), effects: [blur] },
+      { ...makeVariant('v:1', { State: 'Hover' }, 0.4), effects: [blur] },
+    ], [STATE]);
+    const component = generateButtonComponent(set);
+
+    expect(component.header.content).toContain('void resized() override;');
+    expect(component.header.content).toContain('juce::Image stateDefaultBlur; // State=Default — layer blur cache');
+    expect(component.header.content).toContain('juce::Image stateHoverBlur; // State=Hover — layer blur cache');
+    expect(component.implementation.content).toContain('if (stateHoverBlur.getWidth() != width || stateHoverBlur.getHeight() != height)');
+    expect(component.implementation.content).toContain('void PowerButton::resized()\n{\n    // Blurred images are re-rendered at the new size\n    stateDefaultBlur = {};\n    stateHoverBlur = {};\n}');
+  });
+
+  it('is generated for top-level component sets', () => {
+    const components = generateFromDocument({
+      name: 'Doc',
+      pages: [{
+        id: 'p:1',
+        name: 'Page 1',
+        backgroundColor: { r: 1, g: 1, b: 1, a: 1 },
+        children: [makeToggleSet()],
+      }],
+    });
+
+    expect(components.map(c => c.className)).toEqual(['PowerButton']);
+  });
+
+  it('is generated for component sets nested in a frame, as a laid-out member', () => {
+    const set = makeToggleSet();
+    Object.assign(set, { bounds: { x: 20, y: 40, width: 200, height: 200 }, relativeX: 20, relativeY: 40 });
+    const panel: IRFrameNode = {
+      ...makeVariant('f:panel', {}, 0.5),
+      name: 'Panel',
+      type: 'frame',
+      bounds: { x: 0, y: 0, width: 400, height: 300 },
+      children: [set],
+    };
+    const components = generateFromDocument({
+      name: 'Doc',
+      pages: [{
+        id: 'p:1',
+        name: 'Page 1',
+        backgroundColor: { r: 1, g: 1, b: 1, a: 1 },
+        children: [panel],
+      }],
+    });
+
+    expect(components.map(c => c.className)).toEqual(['PowerButton', 'Panel']);
+    const [, panelClass] = components;
+    expect(panelClass.header.content).toContain('PowerButton powerButton; // Power Button — nested component');
+    expect(panelClass.implementation.content).toContain('addAndMakeVisible(powerButton);');
+    expect(panelClass.implementation.content).toContain('powerButton.setBounds(');
+    // The variants are drawn by the button, not by the panel
+    expect(panelClass.implementation.content).not.toContain('0xff1a1a1a');
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { generateFillCode, colourToHex, imageRefToMemberName } from '../../src/codegen/colour.js';
-import type { IRImageFill } from '../../src/ir/types.js';
+import { generateFillCode, generateStrokePaintCode, colourToHex, imageRefToMemberName, fillsBoundsItself } from '../../src/codegen/colour.js';
+import type { IRImageFill, IRAngularGradientFill, IRDiamondGradientFill, IRLinearGradientFill, IRRadialGradientFill } from '../../src/ir/types.js';
 
 describe('colourToHex', () => {
   it('converts white', () => {
@@ -22,6 +22,152 @@ describe('imageRefToMemberName', () => {
   });
 });
 
+describe('generateFillCode for solid fills', () => {
+  it('references the colour token when the fill uses a style', () => {
+    const result = generateFillCode(
+      { type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 0.5, visible: true, token: 'brandAccent' },
+      'bounds',
+    );
+    expect(result).toBe('g.setColour(Colours::brandAccent.withAlpha(0.5f));\n');
+  });
+});
+
+describe('generateFillCode for transformed gradients', () => {
+  const stops = [
+    { position: 0, color: { r: 1, g: 0, b: 0, a: 1 } },
+    { position: 1, color: { r: 0, g: 0, b: 1, a: 1 } },
+  ];
+
+  it('maps an elliptical radial gradient from the unit circle', () => {
+    const radial: IRRadialGradientFill = {
+      type: 'radialGradient', center: { x: 0.5, y: 0.5 }, radius: 0.5, stops, opacity: 1, visible: true,
+      transform: { m00: 0.5, m01: 0, m02: 0.5, m10: 0, m11: 0.25, m12: 0.5 },
+    };
+    const result = generateFillCode(radial, 'bounds');
+    expect(result).toContain('juce::ColourGradient gradient(juce::Colour(0xffff0000), 0.0f, 0.0f, juce::Colour(0xff0000ff), 1.0f, 0.0f, true);');
+    expect(result).toContain('g.setFillType(juce::FillType(gradient, juce::AffineTransform(');
+    expect(result).toContain('    bounds.getWidth() * 0.5f, bounds.getWidth() * 0.0f, bounds.getX() + bounds.getWidth() * 0.5f,');
+    expect(result).toContain('    bounds.getHeight() * 0.0f, bounds.getHeight() * 0.25f, bounds.getY() + bounds.getHeight() * 0.5f)));');
+  });
+
+  it('maps a skewed linear gradient along its handles', () => {
+    const linear: IRLinearGradientFill = {
+      type: 'linearGradient', start: { x: 0, y: 0 }, end: { x: 1, y: 1 }, stops, opacity: 0.5, visible: true,
+      transform: { m00: 1, m01: 0.2, m02: 0, m10: 1, m11: 0.8, m12: 0 },
+    };
+    const result = generateFillCode(linear, 'bounds');
+    expect(result).toContain('juce::ColourGradient gradient(juce::Colour(0xffff0000), 0.0f, 0.0f, juce::Colour(0xff0000ff), 1.0f, 0.0f, false);');
+    expect(result).toContain('gradient.multiplyOpacity(0.5f);');
+    expect(result).toContain('    bounds.getWidth() * 1.0f, bounds.getWidth() * 0.2f, bounds.getX() + bounds.getWidth() * 0.0f,');
+  });
+
+  it('falls back to the handle endpoints when the transform is degenerate', () => {
+    const linear: IRLinearGradientFill = {
+      type: 'linearGradient', start: { x: 0, y: 0 }, end: { x: 1, y: 0 }, stops, opacity: 1, visible: true,
+      transform: { m00: 1, m01: 1, m02: 0, m10: 0, m11: 0, m12: 0 },
+    };
+    const result = generateFillCode(linear, 'bounds');
+    expect(result).not.toContain('setFillType');
+    expect(result).toContain('g.setGradientFill(gradient);');
+  });
+});
+
+describe('generateFillCode for angular and diamond gradients', () => {
+  const stops = [
+    { position: 0, color: { r: 1, g: 0, b: 0, a: 1 } },
+    { position: 0.5, color: { r: 0, g: 1, b: 0, a: 1 } },
+    { position: 1, color: { r: 0, g: 0, b: 1, a: 1 } },
+  ];
+  const angular: IRAngularGradientFill = {
+    type: 'angularGradient', center: { x: 0.5, y: 0.5 }, start: { x: 0.5, y: 0 }, stops, opacity: 1, visible: true,
+  };
+  const diamond: IRDiamondGradientFill = {
+    type: 'diamondGradient', center: { x: 0.5, y: 0.5 }, axes: [{ x: 0.5, y: 0 }, { x: 0, y: 0.5 }], stops, opacity: 0.5, visible: true,
+  };
+
+  it('builds a colour ramp from the stops', () => {
+    const result = generateFillCode(diamond, 'bounds');
+    expect(result).toContain('    juce::ColourGradient ramp(juce::Colour(0xffff0000), 0.0f, 0.0f, juce::Colour(0xff0000ff), 1.0f, 0.0f, false);');
+    expect(result).toContain('    ramp.addColour(0.5f, juce::Colour(0xff00ff00));');
+    expect(result).toContain('    ramp.multiplyOpacity(0.5f);');
+  });
+
+  it('fans pie wedges around the centre from the start handle', () => {
+    const result = generateFillCode(angular, 'bounds');
+    expect(result).toContain('juce::Point<float> centre(bounds.getX() + bounds.getWidth() * 0.5f, bounds.getY() + bounds.getHeight() * 0.5f);');
+    expect(result).toContain('juce::Point<float> handle(bounds.getX() + bounds.getWidth() * 0.5f, bounds.getY() + bounds.getHeight() * 0.0f);');
+    expect(result).toContain('const float start = centre.getAngleToPoint(handle);');
+    expect(result).toContain('wedge.addPieSegment(');
+    expect(result).toContain('g.setColour(ramp.getColourAtPosition(((float) i + 0.5f) / (float) wedges));');
+  });
+
+  it('nests diamonds along the handle axes', () => {
+    const result = generateFillCode(diamond, 'bounds');
+    expect(result).toContain('juce::Point<float> axisA(bounds.getWidth() * 0.5f, bounds.getHeight() * 0.0f);');
+    expect(result).toContain('juce::Point<float> axisB(bounds.getWidth() * 0.0f, bounds.getHeight() * 0.5f);');
+    expect(result).toContain('ring.lineTo(centre - axisA * t);');
+  });
+
+  it('marks only angular and diamond gradients as painting their bounds', () => {
+    expect(fillsBoundsItself(angular)).toBe(true);
+    expect(fillsBoundsItself(diamond)).toBe(true);
+    expect(fillsBoundsItself({ type: 'solid', color: { r: 0, g: 0, b: 0, a: 1 }, opacity: 1, visible: true })).toBe(false);
+  });
+
+  it('strokes with the first stop colour, marked as approximate', () => {
+    const result = generateStrokePaintCode({
+      color: { r: 1, g: 0, b: 0, a: 1 },
+      paint: angular,
+      weight: 2,
+      align: 'center',
+      cap: 'none',
+      join: 'miter',
+      dashes: [],
+      opacity: 1,
+      visible: true,
+    }, 'bounds');
+    expect(result).toBe('// Angular gradient stroke approximated with its first stop colour\ng.setColour(juce::Colour(0xffff0000));\n');
+  });
+
+  it('marks diamond gradient strokes as approximate too', () => {
+    const result = generateStrokePaintCode({
+      color: { r: 1, g: 0, b: 0, a: 1 },
+      paint: diamond,
+      weight: 2,
+      align: 'center',
+      cap: 'none',
+      join: 'miter',
+      dashes: [],
+      opacity: 1,
+      visible: true,
+    }, 'bounds');
+    expect(result).toContain('// Diamond gradient stroke approximated with its first stop colour');
+  });
+});
+
+describe('generateStrokePaintCode', () => {
+  it('sets an image fill type placed to the bounds', () => {
+    const result = generateStrokePaintCode({
+      color: { r: 0, g: 0, b: 0, a: 1 },
+      paint: { type: 'image', imageRef: 'ring', scaleMode: 'fill', opacity: 0.5, visible: true },
+      weight: 2,
+      align: 'center',
+      cap: 'none',
+      join: 'miter',
+      dashes: [],
+      opacity: 0.5,
+      visible: true,
+    }, 'bounds');
+
+    expect(result).toBe([
+      'juce::FillType imageFill(image_ring, juce::RectanglePlacement(juce::RectanglePlacement::stretchToFit).getTransformToFit(image_ring.getBounds().toFloat(), bounds));',
+      'imageFill.setOpacity(0.5f);',
+      'g.setFillType(imageFill);',
+      '',
+    ].join('\n'));
+  });
+});
+
 describe('generateFillCode for image fills', () => {
   function makeImageFill(overrides: Partial<IRImageFill> = {}): IRImageFill {
     return {
@@ -61,6 +207,41 @@ describe('generateFillCode for image fills', () => {
     expect(code).toContain('image_testImage123');
   });
 
+  it('places the crop rectangle over the bounds when cropped', () => {
+    const code = generateFillCode(makeImageFill({
+      scaleMode: 'crop',
+      transform: { m00: 0.5, m01: 0, m02: 0.25, m10: 0, m11: 0.5, m12: 0.1 },
+    }), 'bounds');
+    expect(code).not.toContain('fillDestination');
+    expect(code).toContain(
+      'g.drawImageTransformed(image_testImage123, juce::AffineTransform::scale(1.0f / (float) image_testImage123.getWidth(), 1.0f / (float) image_testImage123.getHeight())'
+      + '.followedBy(juce::AffineTransform(2.0f, 0.0f, -0.5f, 0.0f, 2.0f, -0.2f))'
+      + '.followedBy(juce::AffineTransform::scale(bounds.getWidth(), bounds.getHeight()))'
+      + '.translated(bounds.getX(), bounds.getY()));',
+    );
+  });
+
+  it('sizes tiles by the scaling factor', () => {
+    const code = generateFillCode(makeImageFill({ scaleMode: 'tile', scalingFactor: 0.5 }), 'bounds');
+    expect(code).toContain('auto tileW = (float) image_testImage123.getWidth() * 0.5f;');
+    expect(code).toContain('g.drawImage(image_testImage123, juce::Rectangle<float>(x, y, tileW, tileH));');
+  });
+
+  it('scales tiled image strokes by the scaling factor', () => {
+    const code = generateStrokePaintCode({
+      color: { r: 0, g: 0, b: 0, a: 1 },
+      paint: makeImageFill({ scaleMode: 'tile', scalingFactor: 2 }),
+      weight: 1, align: 'center', cap: 'none', join: 'miter', dashes: [], opacity: 1, visible: true,
+    }, 'bounds');
+    expect(code).toContain('juce::AffineTransform::scale(2.0f).translated(bounds.getX(), bounds.getY())');
+  });
+
+  it('paints the bounds itself in every scale mode', () => {
+    for (const scaleMode of ['fill', 'fit', 'crop', 'tile'] as const) {
+      expect(fillsBoundsItself(makeImageFill({ scaleMode }))).toBe(true);
+    }
+  });
+
   it('returns empty string for invisible image fills', () => {
     const code = generateFillCode(makeImageFill({ visible: false }), 'bounds');
     expect(code).toBe('');
@@ -8,6 +8,7 @@ import type {
   IRDocument,
   IRPage,
   IRFrameNode,
+  IRGroupNode,
   IRRectangleNode,
   IRCornerRadius,
 } from '../../src/ir/types.js';
@@ -124,6 +125,28 @@ describe('generateComponent', () => {
     expect(result.implementation.content).toContain('getLocalBounds');
   });
 
+  it('paints inline children where resized() lays them out', () => {
+    const result = generateComponent(makeFrame());
+
+    expect(result.header.content).toContain('juce::Rectangle<float> panelBounds; // Panel — layout bounds');
+    expect(result.implementation.content).toContain('panelBounds = bounds.getProportion(');
+    expect(result.implementation.content).toContain('g.fillRoundedRectangle(panelBounds, 8.0f);');
+  });
+
+  it('declares hinted controls inside groups as members', () => {
+    const knob = makeRect({ id: 'r:2', name: 'Gain Knob', relativeX: 10, relativeY: 10, bounds: { x: 30, y: 30, width: 40, height: 40 } });
+    const group: IRGroupNode = {
+      id: 'g:1', name: 'Controls', type: 'group', visible: true, opacity: 1,
+      bounds: { x: 20, y: 20, width: 60, height: 60 }, relativeX: 20, relativeY: 20,
+      fills: [], strokes: [], effects: [], blendMode: 'NORMAL', children: [knob],
+    };
+    const result = generateComponent(makeFrame({ children: [group] }));
+
+    expect(result.header.content).toContain('juce::Slider gainKnob;');
+    expect(result.implementation.content).toContain('addAndMakeVisible(gainKnob);');
+    expect(result.implementation.content).toContain('gainKnob.setBounds(gainKnobBounds.toNearestInt());');
+  });
+
   it('handles frame with no children', () => {
     const frame = makeFrame({ children: [] });
     const result = generateComponent(frame);
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import {
   generateFromDocument,
   generateComponent,
+  generateClipHelper,
 } from '../../src/codegen/generator.js';
 import type {
   IRDocument,
@@ -389,4 +390,236 @@ describe('Nested Components', () => {
     // Should NOT contain nested frame's fill
     expect(paintBody).not.toContain('0xff808080'); // Nested frame (0.5 * 255 = 128 = 0x80)
   });
+
+  it('clips child components that reach into a rounded clipping frame\'s corners', () => {
+    const header = makeFrame({ id: 'f:header', name: 'Header', bounds: { x: 0, y: 0, width: 400, height: 40 } });
+    const meter = makeFrame({ id: 'f:meter', name: 'Meter', bounds: { x: 100, y: 100, width: 200, height: 100 }, relativeX: 100, relativeY: 100 });
+    const card = makeFrame({ name: 'Card', cornerRadius: makeCornerRadius(16), children: [header, meter] });
+    const doc = makeDocument({ pages: [makePage({ children: [card] })] });
+    const components = generateFromDocument(doc);
+    const parent = components.find(c => c.className === 'Card')!;
+
+    expect(parent.header.content).toContain('#include <juce_gui_basics/juce_gui_basics.h>\n#include "FigmaClip.h"\n');
+    expect(parent.header.content).toContain('FigmaClip::ChildClip headerClip; // Header — rounded corner clip');
+    expect(parent.header.content).not.toContain('meterClip');
+    expect(parent.implementation.content).toContain('addAndMakeVisible(header);\n    header.setComponentEffect(&headerClip);');
+    expect(parent.implementation.content).toContain([
+      '    // Child components are clipped to the rounded corners',
+      '    {',
+      '        juce::Path clip;',
+      '        clip.addRoundedRectangle(getLocalBounds().toFloat(), 16.0f);',
+      '        headerClip.update(clip, header);',
+      '    }',
+    ].join('\n'));
+    expect(generateClipHelper(doc)!.content).toContain('class ChildClip : public juce::ImageEffectFilter');
+    expect(generateClipHelper(makeDocument({ pages: [makePage({ children: [{ ...card, children: [meter] }] })] }))).toBeNull();
+  });
+
+  it('gives different frames with the same name their own classes', () => {
+    const header = (id: string, a: number) => makeFrame({
+      id,
+      name: 'Header',
+      bounds: { x: 0, y: 0, width: 400, height: 40 },
+      fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a }, opacity: 1, visible: true }],
+    });
+    const editorA = makeFrame({ id: 'f:a', name: 'EditorA', children: [header('f:ha', 1)] });
+    const editorB = makeFrame({ id: 'f:b', name: 'EditorB', children: [header('f:hb', 0.5)] });
+    const components = generateFromDocument(makeDocument({ pages: [makePage({ children: [editorA, editorB] })] }));
+
+    expect(components.map(c => c.className)).toEqual(['Header', 'EditorA', 'Header2', 'EditorB']);
+    expect(components[0].implementation.content).toContain('0xffff0000');
+    expect(components[2].implementation.content).toContain('0x80ff0000');
+    expect(components[3].header.content).toContain('Header2 header;');
+  });
+});
+
+describe('Component Instances', () => {
+  const mainStrip: IRFrameNode = {
+    ...makeFrame({
+      id: 'c:strip',
+      name: 'Channel Strip',
+      bounds: { x: 0, y: 0, width: 60, height: 300 },
+      fills: [{ type: 'solid', color: { r: 0.2, g: 0.2, b: 0.2, a: 1 }, opacity: 1, visible: true }],
+    }),
+    type: 'component',
+  };
+
+  function makeInstance(i: number, overrides: Partial<IRFrameNode> = {}): IRFrameNode {
+    return {
+      ...mainStrip,
+      id: `i:${i}`,
+      type: 'instance',
+      componentId: 'c:strip',
+      bounds: { x: i * 60, y: 0, width: 60, height: 300 },
+      relativeX: i * 60,
+      relativeY: 0,
+      ...overrides,
+    };
+  }
+
+  it('generates one class for many instances of the same component', () => {
+    const instances = Array.from({ length: 12 }, (_, i) => makeInstance(i));
+    const mixer = makeFrame({ name: 'Mixer', bounds: { x: 0, y: 0, width: 720, height: 300 }, children: instances });
+    const components = generateFromDocument(
+      makeDocument({ pages: [makePage({ children: [mainStrip, mixer] })] }),
+    );
+
+    expect(components.map(c => c.className)).toEqual(['ChannelStrip', 'Mixer']);
+
+    const header = components.find(c => c.className === 'Mixer')!.header.content;
+    expect(header.match(/ChannelStrip channelStrip\d*;/g)).toHaveLength(12);
+    expect(header).toContain('ChannelStrip channelStrip;');
+    expect(header).toContain('ChannelStrip channelStrip12;');
+
+    const impl = components.find(c => c.className === 'Mixer')!.implementation.content;
+    expect(impl).toContain('channelStrip12.setBounds(channelStrip12Bounds.toNearestInt());');
+  });
+
+  it('uses the main component class even when it is on another page', () => {
+    const mixer = makeFrame({ name: 'Mixer', children: [makeInstance(0, { name: 'Strip A' })] });
+    const components = generateFromDocument(makeDocument({
+      pages: [
+        makePage({ children: [mixer] }),
+        makePage({ id: 'p:2', name: 'Components', children: [mainStrip] }),
+      ],
+    }));
+
+    expect(components.map(c => c.className)).toEqual(['ChannelStrip', 'Mixer']);
+    expect(components[1].header.content).toContain('ChannelStrip stripA;');
+  });
+
+  it('generates a paint() override subclass for instances with overridden content', () => {
+    const overridden = makeInstance(1, {
+      name: 'Master Strip',
+      fills: [{ type: 'solid', color: { r: 0.5, g: 0.5, b: 0.5, a: 1 }, opacity: 1, visible: true }],
+    });
+    const mixer = makeFrame({ name: 'Mixer', children: [makeInstance(0), overridden] });
+    const components = generateFromDocument(
+      makeDocument({ pages: [makePage({ children: [mainStrip, mixer] })] }),
+    );
+
+    expect(components.map(c => c.className)).toEqual(['ChannelStrip', 'MasterStrip', 'Mixer']);
+
+    const master = components.find(c => c.className === 'MasterStrip')!;
+    expect(master.header.content).toContain('#include "ChannelStrip.h"');
+    expect(master.header.content).toContain('class MasterStrip : public ChannelStrip');
+    expect(master.header.content).not.toContain('void resized()');
+    expect(master.implementation.content).toContain('0xff808080');
+
+    const header = components.find(c => c.className === 'Mixer')!.header.content;
+    expect(header).toContain('ChannelStrip channelStrip;');
+    expect(header).toContain('MasterStrip masterStrip;');
+  });
+
+  it('paints overridden art where the inherited resized() lays it out', () => {
+    const meter = makeRect({ id: 'r:meter', name: 'Meter', cornerRadius: makeCornerRadius(0) });
+    const main: IRFrameNode = { ...mainStrip, children: [meter] };
+    const overridden = makeInstance(1, {
+      name: 'Master Strip',
+      children: [{
+        ...meter,
+        id: 'i:1;r:meter',
+        fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true }],
+      }],
+    });
+    const mixer = makeFrame({ name: 'Mixer', children: [overridden] });
+    const components = generateFromDocument(
+      makeDocument({ pages: [makePage({ children: [main, mixer] })] }),
+    );
+
+    const base = components.find(c => c.className === 'ChannelStrip')!;
+    expect(base.header.content).toContain('protected:\n    juce::Rectangle<float> meterBounds; // Meter — layout bounds\n\nprivate:');
+    expect(base.implementation.content).toContain('meterBounds = ');
+
+    const master = components.find(c => c.className === 'MasterStrip')!.implementation.content;
+    expect(master).toContain('g.setColour(juce::Colour(0xffff0000));\n    g.fillRect(meterBounds);');
+    expect(master).not.toContain('juce::Rectangle<float>(10.0f, 10.0f');
+  });
+
+  it('composites and blurs in override subclasses with their own caches', () => {
+    const glow = makeRect({ id: 'r:glow', name: 'Glow', blendMode: 'SCREEN', cornerRadius: makeCornerRadius(0) });
+    const glass = makeFrame({
+      id: 'f:glass',
+      name: 'Glass',
+      bounds: { x: 10, y: 100, width: 40, height: 40 },
+      relativeX: 10,
+      relativeY: 100,
+      effects: [{ type: 'backgroundBlur', radius: 8, visible: true }],
+    });
+    const main: IRFrameNode = { ...mainStrip, children: [glow, glass] };
+    const overridden = makeInstance(1, {
+      name: 'Master Strip',
+      children: [
+        { ...glow, id: 'i:1;r:glow', fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true }] },
+        { ...glass, id: 'i:1;f:glass' },
+      ],
+    });
+    const mixer = makeFrame({ name: 'Mixer', children: [overridden] });
+    const components = generateFromDocument(
+      makeDocument({ pages: [makePage({ children: [main, mixer] })] }),
+      [],
+      { blendModes: true },
+    );
+
+    const base = components.find(c => c.className === 'ChannelStrip')!;
+    expect(base.header.content).toContain('protected:\n    Glass glass; // Glass — nested component\n');
+
+    const master = components.find(c => c.className === 'MasterStrip')!;
+    const cpp = master.implementation.content;
+    expect(master.header.content).toContain('juce::Image glowBlend; // Glow — SCREEN blend cache');
+    expect(master.header.content).toContain('juce::Image glassBackdropBlur; // Glass — background blur cache');
+    expect(cpp).toContain('#include "MasterStrip.h"\n#include "FigmaBlur.h"\n#include "FigmaBlend.h"');
+    expect(cpp).toContain('FigmaBlend::apply(glowBlend, backdrop, FigmaBlend::Mode::screen);');
+    expect(cpp).toContain('clip.addRectangle(glass.getBounds().toFloat());');
+    expect(cpp.slice(cpp.indexOf('void MasterStrip::resized()'))).toContain('ChannelStrip::resized();\n    // Blurred images are re-rendered at the new size\n    glassBackdropBlur = {};\n\n    // Blended images are re-composited for the new layout\n    glowBlend = {};');
+  });
+
+  it('generates no override subclass when only the inherited layout differs', () => {
+    const meter = makeRect({ id: 'r:meter', name: 'Meter', cornerRadius: makeCornerRadius(0) });
+    const main: IRFrameNode = { ...mainStrip, children: [meter] };
+    const moved = makeInstance(1, {
+      children: [{ ...meter, id: 'i:1;r:meter', bounds: { ...meter.bounds, y: 40 }, relativeY: 40 }],
+    });
+    const mixer = makeFrame({ name: 'Mixer', children: [moved] });
+    const components = generateFromDocument(
+      makeDocument({ pages: [makePage({ children: [main, mixer] })] }),
+    );
+
+    expect(components.map(c => c.className)).toEqual(['ChannelStrip', 'Mixer']);
+  });
+
+  it('generates an override subclass when a child component\'s background blur differs', () => {
+    const glass = makeFrame({
+      id: 'f:glass',
+      name: 'Glass',
+      bounds: { x: 10, y: 100, width: 40, height: 40 },
+      relativeX: 10,
+      relativeY: 100,
+      effects: [{ type: 'backgroundBlur', radius: 8, visible: true }],
+    });
+    const main: IRFrameNode = { ...mainStrip, children: [glass] };
+    const frosted = makeInstance(1, {
+      name: 'Frosted Strip',
+      children: [{ ...glass, id: 'i:1;f:glass', effects: [{ type: 'backgroundBlur', radius: 16, visible: true }] }],
+    });
+    const mixer = makeFrame({ name: 'Mixer', children: [frosted] });
+    const components = generateFromDocument(
+      makeDocument({ pages: [makePage({ children: [main, mixer] })] }),
+    );
+
+    const override = components.find(c => c.className === 'FrostedStrip')!;
+    expect(override.implementation.content).toContain('FigmaBlur::apply(glassBackdropBlur, 16.0f * scale);');
+  });
+
+  it('names override subclasses after the main component when the instance name is taken', () => {
+    const overridden = makeInstance(1, {
+      fills: [{ type: 'solid', color: { r: 0.5, g: 0.5, b: 0.5, a: 1 }, opacity: 1, visible: true }],
+    });
+    const mixer = makeFrame({ name: 'Mixer', children: [overridden] });
+    const components = generateFromDocument(
+      makeDocument({ pages: [makePage({ children: [mainStrip, mixer] })] }),
+    );
+
+    expect(components.map(c => c.className)).toEqual(['ChannelStrip', 'ChannelStripOverride1', 'Mixer']);
+  });
 });
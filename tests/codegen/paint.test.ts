@@ -1,7 +1,10 @@
 import { describe, it, expect } from 'vitest';
-import { generatePaintBody } from '../../src/codegen/paint.js';
+import { generatePaintBody, generateHitTestBody } from '../../src/codegen/paint.js';
 import type {
   IRFrameNode,
+  IRGroupNode,
+  IRDropShadow,
+  IRInnerShadow,
   IRRectangleNode,
   IREllipseNode,
   IRTextNode,
@@ -131,7 +134,8 @@ describe('generatePaintBody', () => {
     const result = generatePaintBody(frame);
 
     expect(result).toContain('DropShadow');
-    expect(result).toContain('drawForRectangle');
+    expect(result).toContain('shadowPath.addRectangle(juce::Rectangle<float>(10.0f, 20.0f, 100.0f, 50.0f));');
+    expect(result).toContain('shadow.drawForPath(g, shadowPath);');
     // Shadow should come before fillRect
     const shadowIdx = result.indexOf('DropShadow');
     const fillIdx = result.indexOf('fillRect');
@@ -163,7 +167,7 @@ describe('generatePaintBody', () => {
     expect(innerIdx).toBeGreaterThan(fillIdx);
   });
 
-  it('generates blur comment placeholder', () => {
+  it('renders layer blur through a blurred image', () => {
     const rect = makeRect({
       fills: [{ type: 'solid', color: { r: 1, g: 1, b: 1, a: 1 }, opacity: 1, visible: true }],
       effects: [{
@@ -177,10 +181,50 @@ describe('generatePaintBody', () => {
 
     expect(result).toContain('Layer blur');
     expect(result).toContain('radius: 10px');
-    expect(result).toContain('ImageConvolutionKernel');
+    expect(result).toContain('juce::Image layer(juce::Image::ARGB, width, height, true);');
+    expect(result).toContain('juce::Graphics g(layer);\n            g.addTransform(juce::AffineTransform::translation((float) -area.getX(), (float) -area.getY()).scaled(scale));\n            g.setColour(juce::Colour(0xffffffff));');
+    expect(result).toContain('FigmaBlur::apply(layer, 10.0f * scale);');
+    expect(result).toContain('g.drawImageTransformed(layer, juce::AffineTransform::scale(1.0f / scale).translated((float) area.getX(), (float) area.getY()));');
+    expect(result).not.toContain('ImageConvolutionKernel');
   });
 
-  it('generates background blur comment', () => {
+  it('draws a cached layer blur when given a cache member', () => {
+    const rect = makeRect({
+      fills: [{ type: 'solid', color: { r: 1, g: 1, b: 1, a: 1 }, opacity: 1, visible: true }],
+      effects: [{ type: 'layerBlur', radius: 10, visible: true }],
+    });
+    const result = generatePaintBody(makeFrame({ children: [rect] }), [], new Map(), new Map([['r:1', { layer: 'rectBlur' }]]));
+
+    expect(result).toContain('if (rectBlur.getWidth() != width || rectBlur.getHeight() != height)');
+    expect(result).toContain('rectBlur = juce::Image(juce::Image::ARGB, width, height, true);');
+    expect(result).toMatch(/FigmaBlur::apply\(rectBlur, 10\.0f \* scale\);\n {8}}\n {8}g\.drawImageTransformed\(rectBlur, [^\n]*\n {4}}\n}$/);
+  });
+
+  it('blurs only the area a node draws into, at the display\'s pixel scale', () => {
+    const rect = makeRect({
+      strokes: [{
+        color: { r: 1, g: 1, b: 1, a: 1 }, weight: 4, align: 'outside', cap: 'none', join: 'miter', dashes: [], opacity: 1, visible: true,
+      }],
+      effects: [{ type: 'layerBlur', radius: 10, visible: true }],
+    });
+    const result = generatePaintBody(makeFrame({ children: [rect] }));
+
+    // Bounds grown by the outside stroke (4) and the blur's reach (15)
+    expect(result).toContain(
+      'const auto area = juce::Rectangle<float>(10.0f, 20.0f, 100.0f, 50.0f).expanded(19.0f).getIntersection(getLocalBounds().toFloat()).getSmallestIntegerContainer();',
+    );
+    expect(result).toContain('const auto scale = g.getInternalContext().getPhysicalPixelScaleFactor();');
+    expect(result).toContain('const auto width = juce::roundToInt((float) area.getWidth() * scale);');
+  });
+
+  it('blurs the backdrop only within reach of the node\'s shape', () => {
+    const rect = makeRect({ effects: [{ type: 'backgroundBlur', radius: 20, visible: true }] });
+    const result = generatePaintBody(makeFrame({ children: [rect] }));
+
+    expect(result).toContain('const auto area = clip.getBounds().expanded(30.0f).getIntersection(getLocalBounds().toFloat()).getSmallestIntegerContainer();');
+  });
+
+  it('generates background blur', () => {
     const rect = makeRect({
       effects: [{
         type: 'backgroundBlur',
@@ -194,6 +238,28 @@ describe('generatePaintBody', () => {
     expect(result).toContain('Background blur');
   });
 
+  it('blurs what was drawn beneath the node, clipped to its shape', () => {
+    const background = makeRect({
+      id: 'r:bg',
+      fills: [{ type: 'solid', color: { r: 0, g: 0, b: 1, a: 1 }, opacity: 1, visible: true }],
+    });
+    const glass = makeRect({
+      id: 'r:glass',
+      cornerRadius: makeCornerRadius(6),
+      fills: [{ type: 'solid', color: { r: 1, g: 1, b: 1, a: 0.2 }, opacity: 1, visible: true }],
+      effects: [{ type: 'backgroundBlur', radius: 20, visible: true }],
+    });
+    const result = generatePaintBody(makeFrame({ children: [background, glass] }));
+
+    const snapshot = result.slice(result.indexOf('juce::Graphics g(backdrop);'), result.indexOf('FigmaBlur::apply'));
+    expect(snapshot).toContain('juce::Colour(0xff0000ff)');
+    expect(snapshot).not.toContain('0x33ffffff');
+    expect(result).toContain('FigmaBlur::apply(backdrop, 20.0f * scale);');
+    expect(result).toContain('    clip.addRoundedRectangle(juce::Rectangle<float>(10.0f, 20.0f, 100.0f, 50.0f), 6.0f);');
+    // The blurred backdrop goes beneath the node's own fill
+    expect(result.indexOf('g.drawImageTransformed(backdrop,')).toBeLessThan(result.lastIndexOf('fillRoundedRectangle'));
+  });
+
   it('skips invisible effects', () => {
     const rect = makeRect({
       effects: [
@@ -268,6 +334,148 @@ describe('generatePaintBody', () => {
     expect(result).toContain('drawEllipse');
   });
 
+  it('strokes dashed ellipse outlines as a path', () => {
+    const ellipse = makeEllipse({
+      strokes: [{
+        color: { r: 1, g: 1, b: 1, a: 1 },
+        weight: 2,
+        align: 'inside',
+        cap: 'round',
+        join: 'miter',
+        dashes: [1, 3],
+        opacity: 1,
+        visible: true,
+      }],
+    });
+    const result = generatePaintBody(makeFrame({ children: [ellipse] }));
+
+    expect(result).toContain('outline.addEllipse(juce::Rectangle<float>(50.0f, 50.0f, 80.0f, 80.0f).reduced(1.0f));');
+    expect(result).toContain('const float dashes[] = { 1.0f, 3.0f };');
+    expect(result).toContain(
+      'juce::PathStrokeType(2.0f, juce::PathStrokeType::mitered, juce::PathStrokeType::rounded).createDashedStroke(dashed, outline, dashes, 2);',
+    );
+    expect(result).not.toContain('drawEllipse');
+  });
+
+  it('uses the joint style for rect outlines', () => {
+    const rect = makeRect({
+      strokes: [{
+        color: { r: 1, g: 1, b: 1, a: 1 },
+        weight: 4,
+        align: 'outside',
+        cap: 'none',
+        join: 'round',
+        dashes: [],
+        opacity: 1,
+        visible: true,
+      }],
+    });
+    const result = generatePaintBody(makeFrame({ children: [rect] }));
+
+    expect(result).toContain('outline.addRectangle(juce::Rectangle<float>(10.0f, 20.0f, 100.0f, 50.0f).expanded(2.0f));');
+    expect(result).toContain(
+      'g.strokePath(outline, juce::PathStrokeType(4.0f, juce::PathStrokeType::curved, juce::PathStrokeType::butt));',
+    );
+  });
+
+  it('draws gradient strokes in their own scope', () => {
+    const rect = makeRect({
+      strokes: [{
+        color: { r: 1, g: 1, b: 1, a: 1 },
+        paint: {
+          type: 'linearGradient',
+          start: { x: 0, y: 0 },
+          end: { x: 0, y: 1 },
+          stops: [
+            { position: 0, color: { r: 1, g: 1, b: 1, a: 1 } },
+            { position: 1, color: { r: 0, g: 0, b: 0, a: 1 } },
+          ],
+          opacity: 1,
+          visible: true,
+        },
+        weight: 2,
+        align: 'inside',
+        cap: 'none',
+        join: 'miter',
+        dashes: [],
+        opacity: 1,
+        visible: true,
+      }],
+    });
+    const result = generatePaintBody(makeFrame({ children: [rect] }));
+
+    expect(result).toContain('{\n    juce::ColourGradient gradient(juce::Colour(0xffffffff)');
+    expect(result).toContain('    g.setGradientFill(gradient);\n    g.drawRect(juce::Rectangle<float>(10.0f, 20.0f, 100.0f, 50.0f), 2.0f);\n}');
+    expect(result).not.toContain('g.setColour');
+  });
+
+  it('fills Figma arcs as a pie segment with JUCE angles', () => {
+    const arc = makeEllipse({
+      fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true }],
+      arcStartAngle: 0,
+      arcEndAngle: Math.PI,
+      innerRadius: 0.8,
+    });
+    const result = generatePaintBody(makeFrame({ children: [arc] }));
+
+    expect(result).toBe([
+      '{',
+      '    juce::Path arc;',
+      '    arc.addPieSegment(juce::Rectangle<float>(50.0f, 50.0f, 80.0f, 80.0f), 1.5708f, 4.7124f, 0.8f);',
+      '    g.setColour(juce::Colour(0xffff0000));',
+      '    g.fillPath(arc);',
+      '}',
+    ].join('\n'));
+  });
+
+  it('unwraps arcs whose end angle is before the start', () => {
+    const arc = makeEllipse({
+      fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true }],
+      arcStartAngle: Math.PI,
+      arcEndAngle: -Math.PI / 2,
+      innerRadius: 0,
+    });
+    const result = generatePaintBody(makeFrame({ children: [arc] }));
+
+    expect(result).toContain('arc.addPieSegment(juce::Rectangle<float>(50.0f, 50.0f, 80.0f, 80.0f), 4.7124f, 6.2832f, 0.0f);');
+  });
+
+  it('keeps fillEllipse for full ellipses without an inner radius', () => {
+    const ellipse = makeEllipse({
+      fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true }],
+      arcStartAngle: 0,
+      arcEndAngle: 2 * Math.PI,
+      innerRadius: 0,
+    });
+    const result = generatePaintBody(makeFrame({ children: [ellipse] }));
+
+    expect(result).toContain('g.fillEllipse');
+    expect(result).not.toContain('addPieSegment');
+  });
+
+  it('strokes donut outlines with the inner radius', () => {
+    const donut = makeEllipse({
+      strokes: [{
+        color: { r: 1, g: 1, b: 1, a: 1 },
+        weight: 2,
+        align: 'center',
+        cap: 'none',
+        join: 'miter',
+        dashes: [],
+        opacity: 1,
+        visible: true,
+      }],
+      arcStartAngle: 0,
+      arcEndAngle: 2 * Math.PI,
+      innerRadius: 0.5,
+    });
+    const result = generatePaintBody(makeFrame({ children: [donut] }));
+
+    expect(result).toContain('outline.addPieSegment(juce::Rectangle<float>(50.0f, 50.0f, 80.0f, 80.0f), 1.5708f, 7.854f, 0.5f);');
+    expect(result).toContain('g.strokePath(outline, juce::PathStrokeType(2.0f));');
+    expect(result).not.toContain('drawEllipse');
+  });
+
   it('wraps in saveState/restoreState for opacity < 1', () => {
     const rect = makeRect({
       opacity: 0.5,
@@ -351,4 +559,472 @@ describe('generatePaintBody', () => {
     // Should have paint code for both inner frame and inner rect
     expect(result).toContain('fillRect');
   });
+
+  it('draws rotated nodes with their unrotated size inside a transform', () => {
+    const rect = makeRect({
+      fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true }],
+      bounds: { x: 10, y: 20, width: 50, height: 100 },
+      transform: { m00: 0, m01: 1, m02: 10, m10: -1, m11: 0, m12: 120 },
+      size: { x: 100, y: 50 },
+    });
+    const result = generatePaintBody(makeFrame({ children: [rect] }));
+
+    expect(result).toContain(
+      'g.saveState();\ng.addTransform(juce::AffineTransform::rotation(juce::degreesToRadians(-90.0f), 35.0f, 70.0f));',
+    );
+    expect(result).toContain('g.fillRect(juce::Rectangle<float>(-15.0f, 45.0f, 100.0f, 50.0f));');
+    expect(result).toContain('g.restoreState();');
+  });
+
+  it('uses the full matrix for skewed nodes and composes it into children', () => {
+    const skew = { m00: 1, m01: 0.5, m02: 0, m10: 0, m11: 1, m12: 0 };
+    const child = makeRect({
+      id: 'r:child',
+      fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true }],
+    });
+    const group = makeFrame({ id: 'f:skewed', children: [child], transform: skew, size: { x: 400, y: 300 } });
+    const result = generatePaintBody(makeFrame({ children: [group] }));
+
+    // The empty group adds no transform of its own; the child draws with the skew
+    expect(result.match(/addTransform/g)).toHaveLength(1);
+    expect(result).toContain(
+      'g.addTransform(juce::AffineTransform::translation(-60.0f, -45.0f).followedBy(juce::AffineTransform(1.0f, 0.5f, 0.0f, 0.0f, 1.0f, 0.0f)).translated(60.0f, 45.0f));',
+    );
+  });
+
+  it('draws children of rotated groups with their own transform only', () => {
+    const rotation = { m00: 0, m01: 1, m02: 10, m10: -1, m11: 0, m12: 120 };
+    const child = makeRect({
+      fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true }],
+      bounds: { x: 10, y: 20, width: 50, height: 100 },
+      transform: rotation,
+      size: { x: 100, y: 50 },
+    });
+    const group: IRGroupNode = {
+      id: 'g:1', name: 'Rotated', type: 'group', visible: true, opacity: 1,
+      bounds: { x: 10, y: 20, width: 50, height: 100 }, relativeX: 10, relativeY: 20,
+      fills: [], strokes: [], effects: [], blendMode: 'PASS_THROUGH',
+      transform: rotation, size: { x: 100, y: 50 }, children: [child],
+    };
+    const result = generatePaintBody(makeFrame({ children: [group] }));
+
+    // Figma gives the child's transform relative to the group's parent
+    expect(result.match(/addTransform/g)).toHaveLength(1);
+    expect(result).toContain('g.addTransform(juce::AffineTransform::rotation(juce::degreesToRadians(-90.0f), 35.0f, 70.0f));');
+  });
+
+  it('clips masked siblings to the mask shape without drawing the mask', () => {
+    const red = { type: 'solid' as const, color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true };
+    const mask = makeEllipse({ id: 'e:mask', isMask: true, fills: [red] });
+    const meter = makeRect({ id: 'r:meter', maskedBy: 'e:mask', fills: [red] });
+    const result = generatePaintBody(makeFrame({ children: [mask, meter] }));
+
+    expect(result).toBe([
+      'g.saveState();',
+      '{',
+      '    juce::Path mask;',
+      '    mask.addEllipse(juce::Rectangle<float>(50.0f, 50.0f, 80.0f, 80.0f));',
+      '    g.reduceClipRegion(mask);',
+      '}',
+      'g.setColour(juce::Colour(0xffff0000));',
+      'g.fillRect(juce::Rectangle<float>(10.0f, 20.0f, 100.0f, 50.0f));',
+      'g.restoreState();',
+    ].join('\n'));
+  });
+
+  it('builds the clip path from a vector mask at its position', () => {
+    const mask: IRVectorNode = {
+      id: 'v:mask',
+      name: 'Mask',
+      type: 'vector',
+      visible: true,
+      opacity: 1,
+      bounds: { x: 5, y: 5, width: 10, height: 10 },
+      relativeX: 5,
+      relativeY: 5,
+      fills: [],
+      strokes: [],
+      effects: [],
+      blendMode: 'NORMAL',
+      isMask: true,
+      paths: [{ path: 'M 0 0 L 10 0 L 10 10 Z', windingRule: 'evenodd' }],
+    };
+    const rect = makeRect({
+      maskedBy: 'v:mask',
+      fills: [{ type: 'solid', color: { r: 0, g: 0, b: 1, a: 1 }, opacity: 1, visible: true }],
+    });
+    const result = generatePaintBody(makeFrame({ children: [mask, rect] }));
+
+    expect(result).toContain('mask.startNewSubPath(0.0f, 0.0f);');
+    expect(result).toContain('mask.setUsingNonZeroWinding(false);');
+    expect(result).toContain('mask.applyTransform(juce::AffineTransform::translation(5.0f, 5.0f));');
+    expect(result).not.toContain('g.fillPath');
+  });
+
+  it('notes that masks do not clip child components', () => {
+    const red = { type: 'solid' as const, color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true };
+    const mask = makeEllipse({ id: 'e:mask', name: 'Porthole', isMask: true });
+    const meter = makeRect({ id: 'r:meter', maskedBy: 'e:mask', fills: [red] });
+    const knob = makeFrame({ id: 'f:knob', name: 'Knob', maskedBy: 'e:mask' });
+    const result = generatePaintBody(makeFrame({ children: [mask, meter, knob] }), ['f:knob']);
+
+    expect(result).toContain('// Porthole does not mask child component Knob: it is drawn unmasked\ng.saveState();');
+    expect(result).toContain('g.reduceClipRegion(mask);');
+
+    const onlyComponent = generatePaintBody(makeFrame({ children: [mask, knob] }), ['f:knob']);
+    expect(onlyComponent).toBe('// Porthole does not mask child component Knob: it is drawn unmasked');
+  });
+
+  it('skips masks that clip nothing visible', () => {
+    const mask = makeRect({ id: 'r:mask', isMask: true });
+    const result = generatePaintBody(makeFrame({ children: [mask] }));
+    expect(result).toBe('');
+  });
+});
+
+describe('clipsContent', () => {
+  it('clips inline frame children to the frame bounds', () => {
+    const inner = makeFrame({
+      id: 'f:inner', relativeX: 10, relativeY: 20,
+      bounds: { x: 10, y: 20, width: 100, height: 50 },
+      clipsContent: true, children: [makeRect({ fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true }] })],
+    });
+    const group = makeFrame({ id: 'f:group', children: [inner] });
+    const result = generatePaintBody(makeFrame({ children: [group] }));
+
+    expect(result).toContain('g.saveState();\ng.reduceClipRegion(juce::Rectangle<float>(10.0f, 20.0f, 100.0f, 50.0f).toNearestInt());');
+    expect(result).toMatch(/fillRect[\s\S]*g\.restoreState\(\);$/);
+  });
+
+  it('clips to the rounded rect when the frame has a corner radius', () => {
+    const inner = makeFrame({
+      id: 'f:inner', cornerRadius: makeCornerRadius(12), clipsContent: true,
+      children: [makeRect({ fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true }] })],
+    });
+    const result = generatePaintBody(makeFrame({ children: [makeFrame({ id: 'f:group', children: [inner] })] }));
+
+    expect(result).toContain('juce::Path clip;');
+    expect(result).toContain('clip.addRoundedRectangle(juce::Rectangle<float>(0.0f, 0.0f, 400.0f, 300.0f), 12.0f);');
+    expect(result).toContain('g.reduceClipRegion(clip);');
+  });
+
+  it('leaves children unclipped when clipsContent is false', () => {
+    const inner = makeFrame({
+      id: 'f:inner', cornerRadius: makeCornerRadius(12),
+      children: [makeRect({ fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true }] })],
+    });
+    const result = generatePaintBody(makeFrame({ children: [makeFrame({ id: 'f:group', children: [inner] })] }));
+
+    expect(result).not.toContain('reduceClipRegion');
+  });
+
+  it('clips root children to the rounded component bounds', () => {
+    const frame = makeFrame({
+      cornerRadius: makeCornerRadius(8), clipsContent: true,
+      children: [makeRect({ fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true }] })],
+    });
+    const result = generatePaintBody(frame);
+
+    expect(result).toContain('clip.addRoundedRectangle(getLocalBounds().toFloat(), 8.0f);');
+  });
+
+  it('relies on the component bounds to clip a square root', () => {
+    const frame = makeFrame({
+      clipsContent: true,
+      children: [makeRect({ fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true }] })],
+    });
+    expect(generatePaintBody(frame)).not.toContain('reduceClipRegion');
+  });
+});
+
+describe('generateHitTestBody', () => {
+  it('hit-tests the rounded rect of a clipping frame', () => {
+    const result = generateHitTestBody(makeFrame({ cornerRadius: makeCornerRadius(8), clipsContent: true }));
+    expect(result).toBe([
+      'juce::Path clip;',
+      'clip.addRoundedRectangle(getLocalBounds().toFloat(), 8.0f);',
+      'return clip.contains((float) x, (float) y);',
+    ].join('\n'));
+  });
+
+  it('returns null for square or non-clipping frames', () => {
+    expect(generateHitTestBody(makeFrame({ clipsContent: true }))).toBeNull();
+    expect(generateHitTestBody(makeFrame({ cornerRadius: makeCornerRadius(8) }))).toBeNull();
+  });
+});
+
+describe('group opacity', () => {
+  const red = { type: 'solid' as const, color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true };
+
+  it('composites translucent groups in a transparency layer', () => {
+    const group = makeFrame({ id: 'f:group', opacity: 0.5, children: [makeRect({ fills: [red] }), makeRect({ id: 'r:2', fills: [red] })] });
+    const result = generatePaintBody(makeFrame({ children: [group] }));
+
+    expect(result).toMatch(/^g\.beginTransparencyLayer\(0\.5f\);/);
+    expect(result).toMatch(/g\.endTransparencyLayer\(\);$/);
+    expect(result).not.toContain('setOpacity');
+  });
+
+  it('keeps per-primitive opacity for leaf nodes', () => {
+    const result = generatePaintBody(makeFrame({ children: [makeRect({ opacity: 0.5, fills: [red] })] }));
+
+    expect(result).toContain('g.setOpacity(0.5f);');
+    expect(result).not.toContain('TransparencyLayer');
+  });
+
+  it('keeps per-primitive opacity for frames without visible children', () => {
+    const frame = makeFrame({ id: 'f:empty', opacity: 0.5, fills: [red], children: [makeRect({ visible: false })] });
+    const result = generatePaintBody(makeFrame({ children: [makeFrame({ id: 'f:group', children: [frame] })] }));
+
+    expect(result).toContain('g.setOpacity(0.5f);');
+    expect(result).not.toContain('TransparencyLayer');
+  });
+});
+
+describe('angular and diamond gradient fills', () => {
+  const angular = {
+    type: 'angularGradient' as const,
+    center: { x: 0.5, y: 0.5 },
+    start: { x: 0.5, y: 0 },
+    stops: [
+      { position: 0, color: { r: 1, g: 0, b: 0, a: 1 } },
+      { position: 1, color: { r: 0, g: 0, b: 1, a: 1 } },
+    ],
+    opacity: 1,
+    visible: true,
+  };
+
+  it('clips the gradient to a rounded rect', () => {
+    const rect = makeRect({ cornerRadius: makeCornerRadius(4), fills: [angular] });
+    const result = generatePaintBody(makeFrame({ children: [rect] }));
+
+    expect(result).toContain([
+      'g.saveState();',
+      '{',
+      '    juce::Path clip;',
+      '    clip.addRoundedRectangle(juce::Rectangle<float>(10.0f, 20.0f, 100.0f, 50.0f), 4.0f);',
+      '    g.reduceClipRegion(clip);',
+      '}',
+    ].join('\n'));
+    expect(result).toMatch(/g\.fillPath\(wedge\);\n    }\n}\ng\.restoreState\(\);$/);
+    expect(result).not.toContain('fillRoundedRectangle');
+  });
+
+  it('clips the gradient to an ellipse', () => {
+    const result = generatePaintBody(makeFrame({ children: [makeEllipse({ fills: [angular] })] }));
+
+    expect(result).toContain('    clip.addEllipse(juce::Rectangle<float>(50.0f, 50.0f, 80.0f, 80.0f));');
+    expect(result).not.toContain('fillEllipse');
+  });
+});
+
+describe('image fills', () => {
+  const image = { type: 'image' as const, imageRef: 'avatar', scaleMode: 'crop' as const, opacity: 1, visible: true };
+
+  it('clips the image to a rounded rect', () => {
+    const rect = makeRect({ cornerRadius: makeCornerRadius(4), fills: [image] });
+    const result = generatePaintBody(makeFrame({ children: [rect] }));
+
+    expect(result).toContain([
+      '    clip.addRoundedRectangle(juce::Rectangle<float>(10.0f, 20.0f, 100.0f, 50.0f), 4.0f);',
+      '    g.reduceClipRegion(clip);',
+      '}',
+      'if (image_avatar.isValid())',
+    ].join('\n'));
+    expect(result).not.toContain('fillRoundedRectangle');
+  });
+
+  it('clips the image to an ellipse', () => {
+    const result = generatePaintBody(makeFrame({ children: [makeEllipse({ fills: [image] })] }));
+
+    expect(result).toContain('    clip.addEllipse(juce::Rectangle<float>(50.0f, 50.0f, 80.0f, 80.0f));');
+    expect(result).toMatch(/g\.drawImage\(image_avatar[^]*g\.restoreState\(\);$/);
+    expect(result).not.toContain('fillEllipse');
+  });
+});
+
+describe('corner smoothing', () => {
+  const smoothed = { ...makeCornerRadius(12), smoothing: 0.6 };
+
+  it('fills a smoothed rect with the squircle path', () => {
+    const rect = makeRect({ cornerRadius: smoothed, fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true }] });
+    const result = generatePaintBody(makeFrame({ children: [rect] }));
+
+    expect(result).toContain([
+      '{',
+      '    juce::Path p;',
+      '    FigmaSquircle::addRoundedRectangle(p, juce::Rectangle<float>(10.0f, 20.0f, 100.0f, 50.0f), 12.0f, 12.0f, 12.0f, 12.0f, 0.6f);',
+      '    g.fillPath(p);',
+      '}',
+    ].join('\n'));
+    expect(result).not.toContain('fillRoundedRectangle');
+  });
+
+  it('strokes the squircle outline', () => {
+    const rect = makeRect({
+      cornerRadius: smoothed,
+      strokes: [{
+        color: { r: 0, g: 0, b: 0, a: 1 }, weight: 2, align: 'inside', cap: 'none', join: 'miter', dashes: [], opacity: 1, visible: true,
+      }],
+    });
+    const result = generatePaintBody(makeFrame({ children: [rect] }));
+
+    expect(result).toContain('FigmaSquircle::addRoundedRectangle(outline, juce::Rectangle<float>(10.0f, 20.0f, 100.0f, 50.0f).reduced(1.0f), 12.0f, 12.0f, 12.0f, 12.0f, 0.6f);');
+    expect(result).not.toContain('drawRoundedRectangle');
+  });
+
+  it('clips content and hit tests with the squircle', () => {
+    const rect = makeRect({ fills: [{ type: 'solid', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true }] });
+    const frame = makeFrame({ cornerRadius: smoothed, clipsContent: true, children: [rect] });
+
+    expect(generatePaintBody(frame)).toContain('    FigmaSquircle::addRoundedRectangle(clip, getLocalBounds().toFloat(), 12.0f, 12.0f, 12.0f, 12.0f, 0.6f);');
+    expect(generateHitTestBody(frame)).toContain('FigmaSquircle::addRoundedRectangle(clip, getLocalBounds().toFloat()');
+  });
+
+  it('grows the radii of a shadow cast with spread', () => {
+    const shadow: IRDropShadow = {
+      type: 'dropShadow', color: { r: 0, g: 0, b: 0, a: 0.5 }, offset: { x: 0, y: 2 }, radius: 4, spread: 2, visible: true,
+    };
+    const result = generatePaintBody(makeFrame({ children: [makeRect({ cornerRadius: smoothed, effects: [shadow] })] }));
+
+    expect(result).toContain('FigmaSquircle::addRoundedRectangle(shadowPath, juce::Rectangle<float>(10.0f, 20.0f, 100.0f, 50.0f).expanded(2.0f), 14.0f, 14.0f, 14.0f, 14.0f, 0.6f);');
+  });
+});
+
+describe('layout bounds', () => {
+  const red = { type: 'solid' as const, color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 1, visible: true };
+
+  it('draws laid-out children from their member rectangles', () => {
+    const rect = makeRect({ cornerRadius: makeCornerRadius(4), fills: [red], opacity: 0.5 });
+    const result = generatePaintBody(makeFrame({ children: [rect] }), [], new Map(), new Map(), new Map([['r:1', 'testRectBounds']]));
+
+    expect(result).toContain('g.reduceClipRegion(testRectBounds.toNearestInt());');
+    expect(result).toContain('g.fillRoundedRectangle(testRectBounds, 4.0f);');
+    expect(result).not.toContain('juce::Rectangle<float>(10.0f, 20.0f');
+  });
+
+  it('rotates laid-out children about the member centre', () => {
+    const rect = makeRect({ fills: [red], transform: { m00: 0, m01: -1, m02: 0, m10: 1, m11: 0, m12: 0 } });
+    const result = generatePaintBody(makeFrame({ children: [rect] }), [], new Map(), new Map(), new Map([['r:1', 'testRectBounds']]));
+
+    expect(result).toContain('g.addTransform(juce::AffineTransform::rotation(juce::degreesToRadians(90.0f), testRectBounds.getCentreX(), testRectBounds.getCentreY()));');
+  });
+
+  it('fits vector geometry to the member rectangle', () => {
+    const icon: IRVectorNode = {
+      id: 'v:1', name: 'Icon', type: 'vector', visible: true, opacity: 1,
+      bounds: { x: 10, y: 10, width: 20, height: 10 }, relativeX: 10, relativeY: 10,
+      fills: [red], strokes: [], effects: [], blendMode: 'NORMAL',
+      paths: [{ path: 'M 0 0 L 20 0 L 20 10 Z', windingRule: 'nonzero' }],
+    };
+    const result = generatePaintBody(makeFrame({ children: [icon] }), [], new Map(), new Map(), new Map([['v:1', 'iconBounds']]));
+
+    expect(result).toContain('    path.applyTransform(juce::AffineTransform::scale(iconBounds.getWidth() / 20.0f, iconBounds.getHeight() / 10.0f).translated(iconBounds.getX(), iconBounds.getY()));');
+  });
+
+  it('maps a laid-out group\'s children from its Figma frame', () => {
+    const group = makeFrame({
+      id: 'f:group', relativeX: 40, relativeY: 30, bounds: { x: 40, y: 30, width: 200, height: 100 },
+      children: [makeRect({ fills: [red] })],
+    });
+    const result = generatePaintBody(makeFrame({ children: [group] }), [], new Map(), new Map(), new Map([['f:group', 'groupBounds']]));
+
+    expect(result).toContain([
+      'g.saveState();',
+      'g.addTransform(juce::AffineTransform::scale(groupBounds.getWidth() / 200.0f, groupBounds.getHeight() / 100.0f).translated(groupBounds.getX(), groupBounds.getY()));',
+      'g.setColour(juce::Colour(0xffff0000));',
+      'g.fillRect(juce::Rectangle<float>(10.0f, 20.0f, 100.0f, 50.0f));',
+      'g.restoreState();',
+    ].join('\n'));
+  });
+
+  it('blends mapped children in component coordinates', () => {
+    const glow = makeRect({ id: 'r:glow', fills: [red], blendMode: 'SCREEN' });
+    const group = makeFrame({
+      id: 'f:group', relativeX: 40, relativeY: 30, bounds: { x: 40, y: 30, width: 200, height: 100 },
+      children: [makeRect({ id: 'r:base', fills: [{ ...red, color: { r: 0, g: 0, b: 1, a: 1 } }] }), glow],
+    });
+    const result = generatePaintBody(
+      makeFrame({ children: [group] }), [], new Map([['r:glow', 'glowBlend']]), new Map(), new Map([['f:group', 'groupBounds']]),
+    );
+    const local = 'juce::AffineTransform::scale(groupBounds.getWidth() / 200.0f, groupBounds.getHeight() / 100.0f).translated(groupBounds.getX(), groupBounds.getY())';
+
+    // The sibling beneath is drawn into the backdrop through the group's mapping
+    const backdrop = result.slice(result.indexOf('juce::Graphics g(backdrop);'), result.indexOf('glowBlend = juce::Image'));
+    expect(backdrop).toContain(`g.saveState();\n            g.addTransform(${local});\n            g.setColour(juce::Colour(0xff0000ff));`);
+    // The node is drawn into the cache through the mapping too, and the cache drawn back without it
+    expect(result).toContain(`g.addTransform(juce::AffineTransform::scale(scale));\n            g.addTransform(${local});`);
+    expect(result).toContain(`g.drawImageTransformed(glowBlend, juce::AffineTransform::scale(1.0f / scale).followedBy(${local}.inverted()));`);
+  });
+
+  it('draws children at their own layout bounds when resized() lays them out', () => {
+    const row = makeFrame({ id: 'f:row', children: [makeRect({ fills: [red] })] });
+    const layoutBounds = new Map([['f:row', 'rowBounds'], ['r:1', 'swatchBounds']]);
+    const result = generatePaintBody(makeFrame({ children: [row] }), [], new Map(), new Map(), layoutBounds);
+
+    expect(result).toContain('g.fillRect(swatchBounds);');
+    expect(result).not.toContain('g.addTransform');
+  });
+});
+
+describe('shape-aware shadows', () => {
+  const dropShadow = (spread: number): IRDropShadow => ({
+    type: 'dropShadow', color: { r: 0, g: 0, b: 0, a: 0.5 }, offset: { x: 0, y: 4 }, radius: 8, spread, visible: true,
+  });
+  const innerShadow = (spread: number): IRInnerShadow => ({
+    type: 'innerShadow', color: { r: 0, g: 0, b: 0, a: 0.5 }, offset: { x: 2, y: 3 }, radius: 4, spread, visible: true,
+  });
+
+  it('casts ellipse drop shadows from the ellipse, grown by the spread', () => {
+    const result = generatePaintBody(makeFrame({ children: [makeEllipse({ effects: [dropShadow(3)] })] }));
+
+    expect(result).toContain('shadowPath.addEllipse(juce::Rectangle<float>(50.0f, 50.0f, 80.0f, 80.0f).expanded(3.0f));');
+    expect(result).not.toContain('drawForRectangle');
+  });
+
+  it('grows rounded rect corners with the spread', () => {
+    const rect = makeRect({ cornerRadius: makeCornerRadius(8), effects: [dropShadow(-2)] });
+    const result = generatePaintBody(makeFrame({ children: [rect] }));
+
+    expect(result).toContain('shadowPath.addRoundedRectangle(juce::Rectangle<float>(10.0f, 20.0f, 100.0f, 50.0f).expanded(-2.0f), 6.0f);');
+  });
+
+  it('casts vector drop shadows from the path geometry', () => {
+    const vector: IRVectorNode = {
+      id: 'v:1', name: 'Icon', type: 'vector', visible: true, opacity: 1,
+      bounds: { x: 10, y: 10, width: 20, height: 10 }, relativeX: 10, relativeY: 10,
+      fills: [], strokes: [], effects: [dropShadow(5)], blendMode: 'NORMAL',
+      paths: [{ path: 'M0 0L20 0L10 10Z', windingRule: 'nonzero' }],
+    };
+    const result = generatePaintBody(makeFrame({ children: [vector] }));
+
+    expect(result).toContain('    shadowPath.startNewSubPath(0.0f, 0.0f);');
+    expect(result).toContain('shadowPath.applyTransform(juce::AffineTransform::translation(10.0f, 10.0f));');
+    expect(result).toContain('shadowPath.applyTransform(juce::AffineTransform::scale(1.5f, 2.0f, 20.0f, 15.0f));');
+  });
+
+  it('shadows the inverse of the shape, clipped to the shape', () => {
+    const rect = makeRect({ cornerRadius: makeCornerRadius(8), effects: [innerShadow(0)] });
+    const result = generatePaintBody(makeFrame({ children: [rect] }));
+
+    expect(result).toContain([
+      '    juce::Path shape;',
+      '    shape.addRoundedRectangle(juce::Rectangle<float>(10.0f, 20.0f, 100.0f, 50.0f), 8.0f);',
+      '    juce::Path inverse;',
+      '    inverse.addRectangle(shape.getBounds().expanded(10.0f));',
+      '    inverse.addPath(shape);',
+      '    inverse.setUsingNonZeroWinding(false);',
+      '    g.saveState();',
+      '    g.reduceClipRegion(shape);',
+    ].join('\n'));
+    expect(result).toContain('innerShadow.drawForPath(g, inverse);');
+    expect(result).not.toContain('drawForRectangle');
+  });
+
+  it('shrinks the inner shadow hole by the spread', () => {
+    const result = generatePaintBody(makeFrame({ children: [makeEllipse({ effects: [innerShadow(4)] })] }));
+
+    expect(result).toContain('    hole.addEllipse(juce::Rectangle<float>(50.0f, 50.0f, 80.0f, 80.0f).expanded(-4.0f));');
+    expect(result).toContain('    inverse.addPath(hole);');
+  });
 });
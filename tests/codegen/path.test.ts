@@ -82,6 +82,17 @@ describe('parseSvgPath', () => {
     expect(cmds[0].args).toEqual([0.5, 1.5]);
     expect(cmds[1].args).toEqual([2.75, 3.25]);
   });
+
+  it('treats pairs after a moveto as implicit linetos', () => {
+    const cmds = parseSvgPath('M 0 0 10 0 m 5 5 1 1');
+    expect(cmds.map(c => c.type)).toEqual(['M', 'L', 'm', 'l']);
+  });
+
+  it('parses compact numbers and arc flags', () => {
+    const cmds = parseSvgPath('M.5-.5a10 10 0 0110 20');
+    expect(cmds[0].args).toEqual([0.5, -0.5]);
+    expect(cmds[1]).toEqual({ type: 'a', args: [10, 10, 0, 0, 1, 10, 20] });
+  });
 });
 
 // ─── svgToJucePath ──────────────────────────────────────────────────────────
@@ -139,6 +150,68 @@ describe('svgToJucePath', () => {
     expect(lines[1]).toContain('p.lineTo(5.0f, 10.0f)');
   });
 
+  it('converts a quarter arc to one cubic segment', () => {
+    const pathData: IRPathData = { path: 'M 0 0 A 10 10 0 0 1 10 10', windingRule: 'nonzero' };
+    const lines = svgToJucePath(pathData, 'p');
+
+    expect(lines).toEqual([
+      'p.startNewSubPath(0.0f, 0.0f);',
+      'p.cubicTo(5.5228f, 0.0f, 10.0f, 4.4772f, 10.0f, 10.0f);',
+    ]);
+  });
+
+  it('splits large relative arcs into segments of at most 90 degrees', () => {
+    const pathData: IRPathData = { path: 'M 0 0 a 10 10 0 1 1 0 20', windingRule: 'nonzero' };
+    const lines = svgToJucePath(pathData, 'p');
+
+    // 180° sweep → two quarter segments ending exactly at the endpoint
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe('p.cubicTo(10.0f, 15.5228f, 5.5228f, 20.0f, 0.0f, 20.0f);');
+  });
+
+  it('draws a line for arcs with a zero radius', () => {
+    const pathData: IRPathData = { path: 'M 0 0 A 0 10 0 0 1 10 10', windingRule: 'nonzero' };
+    const lines = svgToJucePath(pathData, 'p');
+
+    expect(lines[1]).toBe('p.lineTo(10.0f, 10.0f);');
+  });
+
+  it('reflects the previous control point for S', () => {
+    const pathData: IRPathData = { path: 'M 0 0 C 0 10 10 10 10 0 S 20 -10 20 0', windingRule: 'nonzero' };
+    const lines = svgToJucePath(pathData, 'p');
+
+    expect(lines[2]).toBe('p.cubicTo(10.0f, -10.0f, 20.0f, -10.0f, 20.0f, 0.0f);');
+  });
+
+  it('uses the current point as the first control point for S without a previous curve', () => {
+    const pathData: IRPathData = { path: 'M 0 0 S 5 5 10 0', windingRule: 'nonzero' };
+    const lines = svgToJucePath(pathData, 'p');
+
+    expect(lines[1]).toBe('p.cubicTo(0.0f, 0.0f, 5.0f, 5.0f, 10.0f, 0.0f);');
+  });
+
+  it('chains reflected control points for T and t', () => {
+    const pathData: IRPathData = { path: 'M 0 0 Q 5 10 10 0 T 20 0 t 10 0', windingRule: 'nonzero' };
+    const lines = svgToJucePath(pathData, 'p');
+
+    expect(lines[2]).toBe('p.quadraticTo(15.0f, -10.0f, 20.0f, 0.0f);');
+    expect(lines[3]).toBe('p.quadraticTo(25.0f, 10.0f, 30.0f, 0.0f);');
+  });
+
+  it('returns to the subpath start after Z', () => {
+    const pathData: IRPathData = { path: 'M 0 0 L 10 0 L 10 10 Z l 5 5', windingRule: 'nonzero' };
+    const lines = svgToJucePath(pathData, 'p');
+
+    expect(lines[4]).toBe('p.lineTo(5.0f, 5.0f);');
+  });
+
+  it('handles implicit linetos after a moveto', () => {
+    const pathData: IRPathData = { path: 'm 1 1 2 2', windingRule: 'nonzero' };
+    const lines = svgToJucePath(pathData, 'p');
+
+    expect(lines[1]).toBe('p.lineTo(3.0f, 3.0f);');
+  });
+
   it('handles relative m/l commands', () => {
     const pathData: IRPathData = { path: 'm 10 20 l 5 5', windingRule: 'nonzero' };
     const lines = svgToJucePath(pathData, 'p');
@@ -216,9 +289,95 @@ describe('generatePathDraw', () => {
     expect(code).toContain('juce::Path path1;');
   });
 
+  it('draws image fills clipped to the path', () => {
+    const node = makeVectorNode({
+      paths: [{ path: 'M 12 0 L 24 24 L 0 24 Z', windingRule: 'nonzero' }],
+      fills: [{ type: 'image', imageRef: 'cap', scaleMode: 'fill', opacity: 1, visible: true }],
+    });
+    const code = generatePathDraw(node, 'bounds').join('\n');
+
+    expect(code).toContain('    g.saveState();\n    g.reduceClipRegion(path);\n    if (image_cap.isValid())');
+    expect(code).not.toContain('g.fillPath(path)');
+  });
+
   it('generates nothing for empty paths', () => {
     const node = makeVectorNode({ paths: [] });
     const lines = generatePathDraw(node, 'bounds');
     expect(lines).toHaveLength(0);
   });
+
+  it('strokes paths with radial gradient paints', () => {
+    const node = makeVectorNode({
+      paths: [{ path: 'M 0 0 L 24 24', windingRule: 'nonzero' }],
+      strokes: [{
+        color: { r: 1, g: 0, b: 0, a: 1 },
+        paint: {
+          type: 'radialGradient',
+          center: { x: 0.5, y: 0.5 },
+          radius: { x: 0.5, y: 0.5 },
+          stops: [
+            { position: 0, color: { r: 1, g: 0, b: 0, a: 1 } },
+            { position: 1, color: { r: 0, g: 0, b: 1, a: 1 } },
+          ],
+          opacity: 1,
+          visible: true,
+        },
+        weight: 2,
+        align: 'center',
+        cap: 'none',
+        join: 'miter',
+        dashes: [],
+        opacity: 1,
+        visible: true,
+      }],
+    });
+    const code = generatePathDraw(node, 'bounds').join('\n');
+
+    expect(code).toContain('        g.setGradientFill(gradient);\n        g.strokePath(path, juce::PathStrokeType(2.0f));');
+    expect(code).toContain(', true);');
+  });
+
+  it('maps caps, joins and dashes for vector strokes', () => {
+    const node = makeVectorNode({
+      paths: [{ path: 'M 0 0 L 24 24', windingRule: 'nonzero' }],
+      strokes: [{
+        color: { r: 1, g: 1, b: 1, a: 1 },
+        weight: 1.5,
+        align: 'center',
+        cap: 'square',
+        join: 'bevel',
+        dashes: [4, 2],
+        opacity: 1,
+        visible: true,
+      }],
+    });
+    const code = generatePathDraw(node, 'bounds').join('\n');
+
+    expect(code).toContain('const float dashes[] = { 4.0f, 2.0f };');
+    expect(code).toContain(
+      'juce::PathStrokeType(1.5f, juce::PathStrokeType::beveled, juce::PathStrokeType::square).createDashedStroke(dashed, path, dashes, 2);',
+    );
+    expect(code).toContain('g.fillPath(dashed);');
+    expect(code).not.toContain('g.strokePath');
+  });
+
+  it('gives zero-length dashes a hairline length so their caps draw dots', () => {
+    const node = makeVectorNode({
+      paths: [{ path: 'M 0 0 L 24 0', windingRule: 'nonzero' }],
+      strokes: [{
+        color: { r: 1, g: 1, b: 1, a: 1 },
+        weight: 3,
+        align: 'center',
+        cap: 'round',
+        join: 'miter',
+        dashes: [0, 6],
+        opacity: 1,
+        visible: true,
+      }],
+    });
+    const code = generatePathDraw(node, 'bounds').join('\n');
+
+    expect(code).toContain('const float dashes[] = { 0.01f, 5.99f };');
+    expect(code).toContain('juce::PathStrokeType::rounded).createDashedStroke(dashed, path, dashes, 2);');
+  });
 });
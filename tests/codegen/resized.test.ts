@@ -1,9 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { generateResizedBody, generateFlexBoxLayout } from '../../src/codegen/resized.js';
+import { generateResizedBody, generateFlexBoxLayout, generateGridLayout, collectLayoutBounds } from '../../src/codegen/resized.js';
 import type {
   IRFrameNode,
+  IRGroupNode,
   IRRectangleNode,
+  IRTextNode,
   IRAutoLayout,
+  IRGridLayout,
   IRCornerRadius,
 } from '../../src/ir/types.js';
 
@@ -315,4 +318,452 @@ describe('component hint setBounds', () => {
     expect(result).toContain('backgroundBounds');
     expect(result).not.toContain('.setBounds(');
   });
+
+  it('keeps the unrotated size of rotated components and sets a transform', () => {
+    const knob = makeRect({
+      name: 'Knob_Volume',
+      relativeX: 50,
+      relativeY: 50,
+      bounds: { x: 50, y: 50, width: 40, height: 80 },
+      transform: { m00: 0, m01: 1, m02: 50, m10: -1, m11: 0, m12: 130 },
+      size: { x: 80, y: 40 },
+    });
+    const frame = makeFrame({ children: [knob] });
+    const result = generateResizedBody(frame);
+
+    expect(result).toContain('knobVolumeBounds = knobVolumeBounds.withSizeKeepingCentre(bounds.getWidth() * 0.2f, bounds.getHeight() * 0.1333f);');
+    expect(result).toContain(
+      'knobVolume.setTransform(juce::AffineTransform::rotation(juce::degreesToRadians(-90.0f), knobVolumeBounds.getCentreX(), knobVolumeBounds.getCentreY()));',
+    );
+  });
+});
+
+describe('layout bounds members', () => {
+  const nested = (node: IRFrameNode) => ({ node, varName: 'meter', className: 'Meter' });
+
+  it('collects a member for every visible inline-drawn child', () => {
+    const meter = makeFrame({ id: 'f:meter', name: 'Meter' });
+    const frame = makeFrame({ children: [makeRect(), makeRect({ id: 'r:2', name: 'Hidden', visible: false }), meter] });
+
+    expect([...collectLayoutBounds(frame, [nested(meter)])]).toEqual([['r:1', 'panelBounds']]);
+  });
+
+  it('stores absolute and constrained layouts in the members', () => {
+    const frame = makeFrame({
+      children: [
+        makeRect(),
+        makeRect({ id: 'r:2', name: 'Footer', constraints: { horizontal: 'leftRight', vertical: 'bottom' } }),
+      ],
+    });
+    const result = generateResizedBody(frame, [], collectLayoutBounds(frame));
+
+    expect(result).toContain('panelBounds = bounds.getProportion(juce::Rectangle<float>(0.05f, 0.0667f, 0.9f, 0.8667f)).toFloat();');
+    expect(result).toContain('footerBounds = juce::Rectangle<int>(bounds.getX() + 20, bounds.getBottom() - 20 - 260, bounds.getWidth() - 20 - 20, 260).toFloat();');
+    expect(result).not.toContain('auto panelBounds');
+  });
+
+  it('keeps the unrotated size of rotated inline children', () => {
+    const frame = makeFrame({
+      children: [makeRect({ transform: { m00: 0, m01: 1, m02: 20, m10: -1, m11: 0, m12: 380 }, size: { x: 260, y: 360 } })],
+    });
+    const result = generateResizedBody(frame, [], collectLayoutBounds(frame));
+
+    expect(result).toContain('panelBounds = panelBounds.withSizeKeepingCentre(bounds.getWidth() * 0.65f, bounds.getHeight() * 1.2f);');
+  });
+
+  it('copies FlexBox results into the members after layout', () => {
+    const frame = makeFrame({
+      autoLayout: {
+        mode: 'vertical', primaryAxisAlign: 'min', counterAxisAlign: 'min',
+        paddingTop: 0, paddingRight: 0, paddingBottom: 0, paddingLeft: 0, itemSpacing: 0,
+        primaryAxisSizing: 'fixed', counterAxisSizing: 'fixed', wrap: false,
+      },
+      children: [makeRect(), makeRect({ id: 'r:2', name: 'Footer' })],
+    });
+    const result = generateResizedBody(frame, [], collectLayoutBounds(frame));
+
+    expect(result).toContain('fb.performLayout(bounds);\npanelBounds = fb.items[0].currentBounds;\nfooterBounds = fb.items[1].currentBounds;');
+  });
+});
+
+describe('nested auto-layout', () => {
+  const autoLayout = (mode: IRAutoLayout['mode']): IRAutoLayout => ({
+    mode, primaryAxisAlign: 'min', counterAxisAlign: 'min',
+    paddingTop: 0, paddingRight: 0, paddingBottom: 0, paddingLeft: 0, itemSpacing: 0,
+    primaryAxisSizing: 'fixed', counterAxisSizing: 'fixed', wrap: false,
+  });
+
+  function makeGroup(overrides: Partial<IRGroupNode> = {}): IRGroupNode {
+    return {
+      id: 'g:1',
+      name: 'Controls',
+      type: 'group',
+      visible: true,
+      opacity: 1,
+      bounds: { x: 40, y: 30, width: 200, height: 100 },
+      relativeX: 40,
+      relativeY: 30,
+      fills: [],
+      strokes: [],
+      effects: [],
+      blendMode: 'NORMAL',
+      children: [],
+      ...overrides,
+    };
+  }
+
+  // Controls (group) > Row (horizontal) > [Swatch, Column (vertical) > [Swatch]]
+  function makeTree(): IRFrameNode {
+    const column = makeFrame({
+      id: 'f:column', name: 'Column', autoLayout: autoLayout('vertical'),
+      bounds: { x: 48, y: 30, width: 100, height: 100 }, relativeX: 48, relativeY: 0,
+      children: [makeRect({ id: 'r:2', name: 'Swatch', relativeX: 0, relativeY: 0, bounds: { x: 48, y: 30, width: 100, height: 20 } })],
+    });
+    const row = makeFrame({
+      id: 'f:row', name: 'Row', autoLayout: autoLayout('horizontal'),
+      bounds: { x: 40, y: 30, width: 200, height: 100 }, relativeX: 0, relativeY: 0,
+      children: [makeRect({ name: 'Swatch', relativeX: 0, relativeY: 0, bounds: { x: 40, y: 30, width: 40, height: 40 } }), column],
+    });
+    return makeFrame({ children: [makeGroup({ children: [row] }), makeRect({ id: 'r:3', name: 'Footer' })] });
+  }
+
+  it('collects members for every node inside a container holding auto-layout', () => {
+    expect([...collectLayoutBounds(makeTree())]).toEqual([
+      ['g:1', 'controlsBounds'],
+      ['r:3', 'footerBounds'],
+      ['f:row', 'rowBounds'],
+      ['r:1', 'swatchBounds'],
+      ['f:column', 'columnBounds'],
+      ['r:2', 'swatch2Bounds'],
+    ]);
+  });
+
+  it('leaves the children of frames without auto-layout to paint()', () => {
+    const inner = makeFrame({ id: 'f:inner', name: 'Inner', children: [makeRect()] });
+    const frame = makeFrame({ children: [makeGroup({ children: [inner] })] });
+
+    expect([...collectLayoutBounds(frame)]).toEqual([['g:1', 'controlsBounds'], ['f:inner', 'innerBounds']]);
+  });
+
+  it('lays out auto-layout frames inside groups with scoped FlexBoxes', () => {
+    const frame = makeTree();
+    const result = generateResizedBody(frame, [], collectLayoutBounds(frame));
+
+    expect(result).toContain('rowBounds = bounds.getProportion(juce::Rectangle<float>(0.1f, 0.1f, 0.5f, 0.3333f)).toFloat();');
+    expect(result).toContain([
+      '// Row auto-layout',
+      '{',
+      '    juce::FlexBox fb;',
+      '    fb.flexDirection = juce::FlexBox::Direction::row;',
+    ].join('\n'));
+    expect(result).toContain('    fb.performLayout(rowBounds);\n    swatchBounds = fb.items[0].currentBounds;\n    columnBounds = fb.items[1].currentBounds;');
+    expect(result).toContain([
+      '    // Column auto-layout',
+      '    {',
+      '        juce::FlexBox fb;',
+      '        fb.flexDirection = juce::FlexBox::Direction::column;',
+    ].join('\n'));
+    expect(result).toContain('        fb.performLayout(columnBounds);\n        swatch2Bounds = fb.items[0].currentBounds;\n    }\n}');
+  });
+
+  it('only gives top-level children component bounds', () => {
+    const row = makeFrame({
+      id: 'f:row', name: 'Row', autoLayout: autoLayout('horizontal'),
+      children: [makeRect({ name: 'Gain Slider' })],
+    });
+    const frame = makeFrame({ children: [row] });
+    const result = generateResizedBody(frame, [], collectLayoutBounds(frame));
+
+    expect(result).toContain('juce::FlexItem(360.0f, 260.0f)');
+    expect(result).not.toContain('setBounds');
+  });
+});
+
+describe('auto-layout item semantics', () => {
+  const row: IRAutoLayout = {
+    mode: 'horizontal', primaryAxisAlign: 'min', counterAxisAlign: 'min',
+    paddingTop: 0, paddingRight: 0, paddingBottom: 0, paddingLeft: 0, itemSpacing: 10,
+    primaryAxisSizing: 'fixed', counterAxisSizing: 'fixed', wrap: false,
+  };
+  const itemLines = (result: string) => result.split('\n').filter(l => l.includes('fb.items.add'));
+
+  function makeText(overrides: Partial<IRTextNode> = {}): IRTextNode {
+    return {
+      id: 't:1', name: 'Label', type: 'text', visible: true, opacity: 1,
+      bounds: { x: 0, y: 0, width: 80, height: 20 }, relativeX: 0, relativeY: 0,
+      fills: [], strokes: [], effects: [], blendMode: 'NORMAL',
+      characters: 'Gain',
+      textStyle: {
+        fontFamily: 'Inter', fontWeight: 400, fontSize: 12, italic: false, letterSpacing: 0, lineHeight: 16,
+        textAlignHorizontal: 'left', textAlignVertical: 'top', textDecoration: 'none', textCase: 'original',
+        color: { r: 1, g: 1, b: 1, a: 1 },
+      },
+      autoResize: 'widthAndHeight',
+      ...overrides,
+    };
+  }
+
+  it('grows fill items and keeps fixed and hug items at their size', () => {
+    const frame = makeFrame({
+      autoLayout: row,
+      children: [
+        makeRect({ id: 'r:1', layoutSizingHorizontal: 'fill', layoutSizingVertical: 'fill' }),
+        makeRect({ id: 'r:2', layoutSizingHorizontal: 'hug', layoutGrow: 1 }),
+        makeRect({ id: 'r:3' }),
+      ],
+    });
+    const [fill, hug, fixed] = itemLines(generateResizedBody(frame));
+
+    expect(fill).toContain('juce::FlexItem(360.0f, 260.0f).withFlex(1.0f).withAlignSelf(juce::FlexItem::AlignSelf::stretch)');
+    expect(hug).toContain('.withFlex(0.0f, 0.0f)');
+    expect(fixed).toContain('juce::FlexItem(360.0f, 260.0f).withFlex(0.0f, 0.0f).withMargin(');
+  });
+
+  it('emits min and max sizes', () => {
+    const frame = makeFrame({ autoLayout: row, children: [makeRect({ minWidth: 100, maxWidth: 400, maxHeight: 300 })] });
+    const [item] = itemLines(generateResizedBody(frame));
+
+    expect(item).toContain('.withMinWidth(100.0f).withMaxWidth(400.0f).withMaxHeight(300.0f)');
+    expect(item).not.toContain('withMinHeight');
+  });
+
+  it('places absolutely positioned children by their constraints, outside the flex pass', () => {
+    const badge = makeRect({
+      id: 'r:2', name: 'Badge', layoutPositioning: 'absolute',
+      relativeX: 370, relativeY: 10, bounds: { x: 370, y: 10, width: 20, height: 20 },
+      constraints: { horizontal: 'right', vertical: 'top' },
+    });
+    const frame = makeFrame({ autoLayout: row, children: [badge, makeRect()] });
+    const result = generateResizedBody(frame, [], collectLayoutBounds(frame));
+
+    expect(itemLines(result)).toHaveLength(1);
+    expect(result).toContain('panelBounds = fb.items[0].currentBounds;');
+    expect(result).toContain('// Badge\nbadgeBounds = juce::Rectangle<int>(bounds.getRight() - 10 - 20, bounds.getY() + 10, 20, 20).toFloat();');
+    expect(result.indexOf('badgeBounds =')).toBeGreaterThan(result.indexOf('fb.performLayout'));
+  });
+
+  it('lines items up on their first text baseline', () => {
+    const frame = makeFrame({
+      autoLayout: { ...row, counterAxisAlign: 'baseline' },
+      children: [makeText(), makeRect({ id: 'r:1', name: 'Icon', bounds: { x: 0, y: 0, width: 24, height: 24 } })],
+    });
+    const result = generateResizedBody(frame);
+    const [label, icon] = itemLines(result);
+
+    expect(result).toContain('fb.alignItems = juce::FlexBox::AlignItems::flexStart;');
+    expect(result).toContain('const float labelBaseline = juce::Font(juce::FontOptions(12.0f)).getAscent();');
+    expect(result).toContain('const float iconBaseline = 24.0f;');
+    expect(result).toContain('const float baseline = std::max({ labelBaseline, iconBaseline });');
+    expect(label).toContain('.withMargin(juce::FlexItem::Margin(baseline - labelBaseline, 0.0f, 0.0f, 0.0f))');
+    expect(icon).toContain('.withMargin(juce::FlexItem::Margin(baseline - iconBaseline, 0.0f, 0.0f, 10.0f))');
+  });
+
+  it('takes a container\'s baseline from its first text', () => {
+    const field = makeFrame({
+      id: 'f:field', name: 'Field', bounds: { x: 0, y: 0, width: 100, height: 40 },
+      children: [makeText({ relativeY: 12 })],
+    });
+    const frame = makeFrame({ autoLayout: { ...row, counterAxisAlign: 'baseline' }, children: [field] });
+
+    expect(generateResizedBody(frame)).toContain('const float fieldBaseline = 12.0f + juce::Font(juce::FontOptions(12.0f)).getAscent();');
+  });
+
+  it('spaces wrapped rows by the counter-axis spacing', () => {
+    const frame = makeFrame({
+      autoLayout: { ...row, wrap: true, counterAxisSpacing: 6, paddingLeft: 8, paddingRight: 8 },
+      children: [makeRect({ id: 'r:1' }), makeRect({ id: 'r:2' })],
+    });
+    const result = generateResizedBody(frame);
+
+    for (const item of itemLines(result)) {
+      expect(item).toContain('.withMargin(juce::FlexItem::Margin(3.0f, 5.0f, 3.0f, 5.0f))');
+    }
+    expect(result).toContain('fb.performLayout(bounds.reduced(8, 0).toFloat().expanded(5.0f, 3.0f));');
+  });
+
+  it('trims uneven padding side by side', () => {
+    const frame = makeFrame({ autoLayout: { ...row, paddingTop: 4, paddingLeft: 12 }, children: [makeRect()] });
+
+    expect(generateResizedBody(frame)).toContain('fb.performLayout(bounds.withTrimmedTop(4).withTrimmedLeft(12));');
+  });
+
+  it('lays out hug-content containers at their content size', () => {
+    const frame = makeFrame({ autoLayout: { ...row, primaryAxisSizing: 'auto' }, children: [makeRect()] });
+
+    expect(generateResizedBody(frame)).toContain('fb.performLayout(bounds.withWidth(400));');
+  });
+
+  it('sizes the members of nested hug-content containers', () => {
+    const inner = makeFrame({
+      id: 'f:inner', name: 'Chips', bounds: { x: 0, y: 0, width: 120, height: 30 },
+      autoLayout: { ...row, primaryAxisSizing: 'auto', counterAxisSizing: 'auto', paddingLeft: 6, paddingRight: 6 },
+      children: [makeRect({ id: 'r:2', name: 'Chip', bounds: { x: 6, y: 0, width: 108, height: 30 } })],
+    });
+    const frame = makeFrame({ autoLayout: row, children: [inner] });
+    const result = generateResizedBody(frame, [], collectLayoutBounds(frame));
+
+    expect(result).toContain([
+      '    chipsBounds = chipsBounds.withSize(120.0f, 30.0f);',
+      '    fb.performLayout(chipsBounds.reduced(6, 0));',
+    ].join('\n'));
+  });
+});
+
+describe('generateGridLayout', () => {
+  // 12 stretched columns with 20px gutters and 20px margins: each column is 81.67px wide
+  const columns12: IRGridLayout = {
+    columns: { tracks: Array.from({ length: 12 }, () => ({ size: 1, unit: 'fr' as const })), gap: 20, align: 'stretch' },
+    paddingTop: 0, paddingRight: 20, paddingBottom: 0, paddingLeft: 20,
+  };
+
+  it('builds the columns from the layout grid', () => {
+    const frame = makeFrame({ bounds: { x: 0, y: 0, width: 1240, height: 600 }, grid: columns12 });
+    const result = generateResizedBody(frame);
+
+    expect(result).toContain([
+      'juce::Grid grid;',
+      'for (int i = 0; i < 12; ++i)',
+      '    grid.templateColumns.add(juce::Grid::TrackInfo(juce::Grid::Fr(1)));',
+      'grid.templateRows = { juce::Grid::TrackInfo(juce::Grid::Fr(1)) };',
+      'grid.columnGap = juce::Grid::Px(20.0f);',
+    ].join('\n'));
+    expect(result).toContain('grid.performLayout(bounds.reduced(20, 0));');
+  });
+
+  it('snaps children to the nearest column span and keeps their vertical placement', () => {
+    const frame = makeFrame({
+      bounds: { x: 0, y: 0, width: 1240, height: 600 },
+      grid: columns12,
+      children: [
+        makeRect({ id: 'r:1', name: 'Channel', relativeX: 24, relativeY: 60, bounds: { x: 24, y: 60, width: 180, height: 480 } }),
+        makeRect({ id: 'r:2', name: 'Master', relativeX: 1020, relativeY: 60, bounds: { x: 1020, y: 60, width: 198, height: 480 } }),
+      ],
+    });
+    const result = generateResizedBody(frame, [], collectLayoutBounds(frame));
+
+    expect(result).toContain('grid.items.add(juce::GridItem().withArea(1, 1, 2, 3));');
+    expect(result).toContain('grid.items.add(juce::GridItem().withArea(1, 11, 2, 13));');
+    expect(result).toContain(
+      'channelBounds = bounds.getProportion(juce::Rectangle<float>(0.0194f, 0.1f, 0.1452f, 0.8f)).toFloat().withHorizontalRange(grid.items[0].currentBounds.getHorizontalRange());',
+    );
+  });
+
+  it('places grid auto-layout children in their cells', () => {
+    const frame = makeFrame({
+      grid: {
+        columns: { tracks: [{ size: 1, unit: 'fr' }, { size: 120, unit: 'px' }], gap: 8, align: 'min' },
+        rows: { tracks: [{ size: 1, unit: 'fr' }, { size: 2, unit: 'fr' }], gap: 0, align: 'min' },
+        paddingTop: 4, paddingRight: 8, paddingBottom: 4, paddingLeft: 16,
+      },
+      children: [
+        makeRect({ gridPlacement: { column: 0, row: 1, columnSpan: 2, rowSpan: 1 } }),
+        makeRect({ id: 'r:2', name: 'Gain Knob', gridPlacement: { column: 1, row: 0, columnSpan: 1, rowSpan: 1 } }),
+      ],
+    });
+    const result = generateResizedBody(frame, [], collectLayoutBounds(frame));
+
+    expect(result).toContain('grid.templateColumns = { juce::Grid::TrackInfo(juce::Grid::Fr(1)), juce::Grid::TrackInfo(juce::Grid::Px(120.0f)) };');
+    expect(result).toContain('grid.templateRows = { juce::Grid::TrackInfo(juce::Grid::Fr(1)), juce::Grid::TrackInfo(juce::Grid::Fr(2)) };');
+    expect(result).toContain('grid.justifyContent = juce::Grid::JustifyContent::start;');
+    expect(result).not.toContain('alignContent');
+    expect(result).toContain('grid.items.add(juce::GridItem().withArea(2, 1, 3, 3));');
+    expect(result).toContain('grid.performLayout(bounds.withTrimmedTop(4).withTrimmedRight(8).withTrimmedBottom(4).withTrimmedLeft(16));');
+    expect(result).toContain('panelBounds = grid.items[0].currentBounds;');
+    expect(result).toContain('gainKnobBounds = grid.items[1].currentBounds;');
+    expect(result).toContain('gainKnob.setBounds(gainKnobBounds.toNearestInt());');
+  });
+
+  it('lays out grids inside groups in a scoped block', () => {
+    const pads = makeFrame({
+      id: 'f:pads', name: 'Pads', relativeX: 0, relativeY: 0,
+      grid: { ...columns12, columns: { ...columns12.columns!, tracks: [{ size: 1, unit: 'fr' }, { size: 1, unit: 'fr' }] } },
+      children: [makeRect({ relativeX: 20, relativeY: 0, bounds: { x: 20, y: 0, width: 180, height: 100 } })],
+    });
+    const frame = makeFrame({ children: [pads] });
+    const result = generateGridLayout(pads, 'padsBounds', [], collectLayoutBounds(frame)).join('\n');
+
+    expect(result).toContain('grid.performLayout(padsBounds.reduced(20, 0).toNearestInt());');
+    expect(generateResizedBody(frame, [], collectLayoutBounds(frame))).toContain('// Pads grid\n{\n    juce::Grid grid;');
+  });
+});
+
+describe('constraints through groups', () => {
+  function makeGroup(overrides: Partial<IRGroupNode> = {}): IRGroupNode {
+    return {
+      id: 'g:1',
+      name: 'Controls',
+      type: 'group',
+      visible: true,
+      opacity: 1,
+      bounds: { x: 300, y: 200, width: 80, height: 80 },
+      relativeX: 300,
+      relativeY: 200,
+      fills: [],
+      strokes: [],
+      effects: [],
+      blendMode: 'NORMAL',
+      children: [],
+      ...overrides,
+    };
+  }
+
+  // Controls (group at 300, 200) > Meter (group at 10, 0) > Gain Knob (at 10, 20)
+  function makeTree(): IRFrameNode {
+    const knob = makeRect({
+      id: 'r:2', name: 'Gain Knob', relativeX: 10, relativeY: 20,
+      bounds: { x: 320, y: 220, width: 40, height: 40 },
+      constraints: { horizontal: 'right', vertical: 'bottom' },
+    });
+    const meter = makeGroup({ id: 'g:2', name: 'Meter', relativeX: 10, relativeY: 0, children: [knob] });
+    const label = makeRect({
+      name: 'Label', relativeX: 0, relativeY: 60,
+      bounds: { x: 300, y: 260, width: 80, height: 20 },
+      constraints: { horizontal: 'leftRight', vertical: 'bottom' },
+    });
+    return makeFrame({ children: [makeGroup({ children: [label, meter] })] });
+  }
+
+  it('collects members for everything inside groups', () => {
+    expect([...collectLayoutBounds(makeTree())]).toEqual([
+      ['g:1', 'controlsBounds'],
+      ['r:1', 'labelBounds'],
+      ['g:2', 'meterBounds'],
+      ['r:2', 'gainKnobBounds'],
+    ]);
+  });
+
+  it('constrains group children to the frame', () => {
+    const frame = makeTree();
+    const result = generateResizedBody(frame, [], collectLayoutBounds(frame));
+
+    // Label: left 300, right margin 400 - 300 - 80 = 20, bottom margin 300 - 260 - 20 = 20
+    expect(result).toContain('labelBounds = juce::Rectangle<int>(bounds.getX() + 300, bounds.getBottom() - 20 - 20, bounds.getWidth() - 300 - 20, 20).toFloat();');
+    // Gain Knob: at 300 + 10 + 10, 200 + 0 + 20 in the frame
+    expect(result).toContain('gainKnobBounds = juce::Rectangle<int>(bounds.getRight() - 40 - 40, bounds.getBottom() - 40 - 40, 40, 40).toFloat();');
+  });
+
+  it('transforms controls in rotated groups by their own transform only', () => {
+    const rotation = { m00: 0, m01: 1, m02: 50, m10: -1, m11: 0, m12: 130 };
+    const knob = makeRect({
+      name: 'Knob_Volume', relativeX: 0, relativeY: 0,
+      bounds: { x: 50, y: 50, width: 40, height: 80 }, transform: rotation, size: { x: 80, y: 40 },
+    });
+    const group = makeGroup({
+      relativeX: 50, relativeY: 50, bounds: { x: 50, y: 50, width: 40, height: 80 },
+      transform: rotation, size: { x: 80, y: 40 }, children: [knob],
+    });
+    const result = generateResizedBody(makeFrame({ children: [group] }));
+
+    expect(result).toContain('knobVolumeBounds = bounds.getProportion(juce::Rectangle<float>(0.125f, 0.1667f, 0.1f, 0.2667f));');
+    expect(result).toContain(
+      'knobVolume.setTransform(juce::AffineTransform::rotation(juce::degreesToRadians(-90.0f), knobVolumeBounds.getCentreX(), knobVolumeBounds.getCentreY()));',
+    );
+  });
+
+  it('gives hinted controls inside groups their bounds', () => {
+    const frame = makeTree();
+    const result = generateResizedBody(frame, [], collectLayoutBounds(frame));
+
+    expect(result).toContain('gainKnob.setBounds(gainKnobBounds.toNearestInt());');
+  });
 });
@@ -50,6 +50,11 @@ describe('generateHeader', () => {
     expect(result).toContain('class PluginEditor');
     expect(result).toContain('PluginEditor()');
   });
+
+  it('declares hitTest only when requested', () => {
+    expect(generateHeader('Card', 'CARD_H')).not.toContain('hitTest');
+    expect(generateHeader('Card', 'CARD_H', [], [], true)).toContain('bool hitTest(int x, int y) override;');
+  });
 });
 
 describe('generateImplementation', () => {
@@ -134,4 +139,14 @@ describe('generateImplementation', () => {
     expect(result).toContain('image_a = juce::ImageFileFormat::loadFrom(BinaryData::image_a_png, BinaryData::image_a_pngSize);');
     expect(result).toContain('// image_b = juce::ImageFileFormat::loadFrom');
   });
+
+  it('emits a hitTest method when a body is given', () => {
+    const result = generateImplementation('Card', 'Card.h', '', '', [], [], [], 'return false;');
+
+    expect(result).toContain('bool Card::hitTest(int x, int y)\n{\n    return false;\n}');
+  });
+
+  it('omits hitTest without a body', () => {
+    expect(generateImplementation('Card', 'Card.h', '', '')).not.toContain('hitTest');
+  });
 });
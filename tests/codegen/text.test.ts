@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { generateTextDraw, buildFontExpression, mapJustification } from '../../src/codegen/text.js';
+import { generateTextDraw, generateFirstBaseline, buildFontExpression, mapJustification } from '../../src/codegen/text.js';
 import type { IRTextNode, IRTextStyle } from '../../src/ir/types.js';
 
 function makeTextStyle(overrides: Partial<IRTextStyle> = {}): IRTextStyle {
@@ -189,3 +189,57 @@ describe('generateTextDraw', () => {
     expect(code).toContain('.boldened()');
   });
 });
+
+// ─── Styled runs ────────────────────────────────────────────────────────────
+
+describe('generateTextDraw with styled runs', () => {
+  const runs = [
+    { characters: 'GAIN ', style: makeTextStyle() },
+    { characters: '+6 dB', style: makeTextStyle({ fontWeight: 700, color: { r: 1, g: 0, b: 0, a: 1 } }) },
+  ];
+
+  it('appends one AttributedString run per style', () => {
+    const node = makeTextNode({ characters: 'GAIN +6 dB', runs });
+    const code = generateTextDraw(node, 'textBounds').join('\n');
+
+    expect(code).toContain('juce::AttributedString text;');
+    expect(code).toContain('text.append("GAIN ", juce::Font(juce::FontOptions(16.0f)), juce::Colour(0xffffffff));');
+    expect(code).toContain('text.append("+6 dB", juce::Font(juce::FontOptions(16.0f)).boldened(), juce::Colour(0xffff0000));');
+    expect(code).not.toContain('g.drawText');
+  });
+
+  it('draws the runs with a TextLayout', () => {
+    const node = makeTextNode({ characters: 'GAIN +6 dB', runs, autoResize: 'none' });
+    const code = generateTextDraw(node, 'textBounds').join('\n');
+
+    expect(code).toContain('text.setJustification(juce::Justification::topLeft);');
+    expect(code).toContain('layout.createLayout(text, textBounds.getWidth());');
+    expect(code).toContain('layout.draw(g, textBounds);');
+    expect(code).not.toContain('WordWrap::none');
+  });
+
+  it('falls back to drawText for a single run', () => {
+    const node = makeTextNode({ runs: [runs[0]] });
+    const code = generateTextDraw(node, 'textBounds').join('\n');
+
+    expect(code).toContain('g.drawText("Hello World"');
+  });
+});
+
+describe('generateFirstBaseline', () => {
+  it('measures the baseline from the font ascent for top-aligned text', () => {
+    expect(generateFirstBaseline(makeTextNode())).toBe('juce::Font(juce::FontOptions(16.0f)).getAscent()');
+  });
+
+  it('centres the line in the box for centred text', () => {
+    const node = makeTextNode({ textStyle: makeTextStyle({ textAlignVertical: 'center', fontToken: 'label' }) });
+
+    expect(generateFirstBaseline(node)).toBe('(30.0f - Fonts::label().getHeight()) * 0.5f + Fonts::label().getAscent()');
+  });
+
+  it('sits the baseline one descent above the bottom for bottom-aligned text', () => {
+    const node = makeTextNode({ textStyle: makeTextStyle({ textAlignVertical: 'bottom' }) });
+
+    expect(generateFirstBaseline(node)).toBe('30.0f - juce::Font(juce::FontOptions(16.0f)).getDescent()');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { hasLinearTransform, composeTransforms, generateTransformExpr } from '../../src/codegen/transform.js';
+
+const rotate90 = { m00: 0, m01: 1, m02: 0, m10: -1, m11: 0, m12: 0 };
+
+describe('hasLinearTransform', () => {
+  it('ignores missing and translation-only transforms', () => {
+    expect(hasLinearTransform(undefined)).toBe(false);
+    expect(hasLinearTransform({ m00: 1, m01: 0, m02: 20, m10: 0, m11: 1, m12: 30 })).toBe(false);
+  });
+
+  it('detects rotations and flips', () => {
+    expect(hasLinearTransform(rotate90)).toBe(true);
+    expect(hasLinearTransform({ m00: -1, m01: 0, m02: 0, m10: 0, m11: 1, m12: 0 })).toBe(true);
+  });
+});
+
+describe('composeTransforms', () => {
+  it('returns whichever side is defined', () => {
+    expect(composeTransforms(undefined, rotate90)).toBe(rotate90);
+    expect(composeTransforms(rotate90, undefined)).toBe(rotate90);
+  });
+
+  it('multiplies the linear parts', () => {
+    const result = composeTransforms(rotate90, rotate90)!;
+    expect(result.m00).toBeCloseTo(-1);
+    expect(result.m01).toBeCloseTo(0);
+    expect(result.m10).toBeCloseTo(0);
+    expect(result.m11).toBeCloseTo(-1);
+  });
+});
+
+describe('generateTransformExpr', () => {
+  it('uses AffineTransform::rotation for pure rotations', () => {
+    expect(generateTransformExpr(rotate90, '10.0f', '20.0f')).toBe(
+      'juce::AffineTransform::rotation(juce::degreesToRadians(-90.0f), 10.0f, 20.0f)',
+    );
+  });
+
+  it('falls back to the full matrix about the centre', () => {
+    const flip = { m00: -1, m01: 0, m02: 0, m10: 0, m11: 1, m12: 0 };
+    expect(generateTransformExpr(flip, '10.0f', '20.0f')).toBe(
+      'juce::AffineTransform::translation(-10.0f, -20.0f).followedBy(juce::AffineTransform(-1.0f, 0.0f, 0.0f, 0.0f, 1.0f, 0.0f)).translated(10.0f, 20.0f)',
+    );
+  });
+});
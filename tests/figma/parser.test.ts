@@ -10,6 +10,10 @@ import type {
   IRTextNode,
   IRVectorNode,
   IRGroupNode,
+  IRComponentSetNode,
+  IRLinearGradientFill,
+  IRRadialGradientFill,
+  IRImageFill,
 } from '../../src/ir/types.js';
 
 function loadFixture(name: string): FigmaFileResponse {
@@ -416,6 +420,125 @@ describe('parseFigmaNode', () => {
     expect(ir.fills[0].type).toBe('solid');
   });
 
+  it('parses corner smoothing', () => {
+    const node: FigmaNode = {
+      id: '99:2',
+      name: 'Card',
+      type: 'RECTANGLE',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 50 },
+      fills: [],
+      strokes: [],
+      effects: [],
+      rectangleCornerRadii: [8, 8, 0, 0],
+      cornerSmoothing: 0.6,
+    };
+
+    const ir = parseFigmaNode(node) as IRRectangleNode;
+    expect(ir.cornerRadius).toEqual({ topLeft: 8, topRight: 8, bottomRight: 0, bottomLeft: 0, isUniform: false, smoothing: 0.6 });
+    expect((parseFigmaNode({ ...node, cornerSmoothing: 0 }) as IRRectangleNode).cornerRadius.smoothing).toBeUndefined();
+  });
+
+  it('parses auto-layout sizing, min/max sizes and wrapped spacing', () => {
+    const node: FigmaNode = {
+      id: '99:3',
+      name: 'Chips',
+      type: 'FRAME',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 80 },
+      fills: [],
+      strokes: [],
+      effects: [],
+      layoutMode: 'HORIZONTAL',
+      layoutWrap: 'WRAP',
+      itemSpacing: 8,
+      counterAxisSpacing: 12,
+      layoutSizingHorizontal: 'FILL',
+      layoutSizingVertical: 'HUG',
+      minWidth: 120,
+      maxWidth: 480,
+      children: [],
+    };
+
+    const ir = parseFigmaNode(node) as IRFrameNode;
+    expect(ir.autoLayout!.counterAxisSpacing).toBe(12);
+    expect(ir.layoutSizingHorizontal).toBe('fill');
+    expect(ir.layoutSizingVertical).toBe('hug');
+    expect(ir.minWidth).toBe(120);
+    expect(ir.maxWidth).toBe(480);
+    expect(ir.minHeight).toBeUndefined();
+    expect((parseFigmaNode({ ...node, layoutWrap: 'NO_WRAP' }) as IRFrameNode).autoLayout!.counterAxisSpacing).toBeUndefined();
+  });
+
+  it('parses grid auto-layout tracks and child cells', () => {
+    const node: FigmaNode = {
+      id: '99:4',
+      name: 'Pads',
+      type: 'FRAME',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 300, height: 200 },
+      fills: [],
+      strokes: [],
+      effects: [],
+      layoutMode: 'GRID',
+      gridColumnCount: 3,
+      gridRowCount: 2,
+      gridColumnGap: 8,
+      gridRowGap: 4,
+      gridColumnsSizing: 'repeat(2, minmax(0, 1fr)) 120px',
+      paddingLeft: 10,
+      children: [
+        {
+          id: '99:5', name: 'Pad', type: 'RECTANGLE', visible: true,
+          absoluteBoundingBox: { x: 10, y: 0, width: 80, height: 98 }, fills: [], strokes: [], effects: [],
+          gridColumnAnchorIndex: 1, gridRowAnchorIndex: 0, gridColumnSpan: 2,
+        } as FigmaNode,
+      ],
+    };
+
+    const ir = parseFigmaNode(node) as IRFrameNode;
+    expect(ir.autoLayout).toBeUndefined();
+    expect(ir.grid!.columns).toEqual({
+      tracks: [{ size: 1, unit: 'fr' }, { size: 1, unit: 'fr' }, { size: 120, unit: 'px' }],
+      gap: 8,
+      align: 'min',
+    });
+    expect(ir.grid!.rows!.tracks).toEqual([{ size: 1, unit: 'fr' }, { size: 1, unit: 'fr' }]);
+    expect(ir.grid!.paddingLeft).toBe(10);
+    expect(ir.children[0].gridPlacement).toEqual({ column: 1, row: 0, columnSpan: 2, rowSpan: 1 });
+  });
+
+  it('parses column layout grids with their margins', () => {
+    const node: FigmaNode = {
+      id: '99:6',
+      name: 'Mixer',
+      type: 'FRAME',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 1240, height: 600 },
+      fills: [],
+      strokes: [],
+      effects: [],
+      layoutGrids: [
+        { pattern: 'COLUMNS', sectionSize: 80, visible: true, color: { r: 1, g: 0, b: 0, a: 0.1 }, alignment: 'STRETCH', gutterSize: 20, offset: 20, count: 12 },
+        { pattern: 'ROWS', sectionSize: 100, visible: true, color: { r: 1, g: 0, b: 0, a: 0.1 }, alignment: 'MIN', gutterSize: 10, offset: 30, count: -1 },
+      ],
+      children: [],
+    };
+
+    const grid = (parseFigmaNode(node) as IRFrameNode).grid!;
+    expect(grid.columns!.tracks).toHaveLength(12);
+    expect(grid.columns!.tracks[0]).toEqual({ size: 1, unit: 'fr' });
+    expect(grid.columns!.gap).toBe(20);
+    expect([grid.paddingLeft, grid.paddingRight]).toEqual([20, 20]);
+    // Auto count: as many 100px rows (plus gutters) as fit below the offset
+    expect(grid.rows!.tracks).toHaveLength(5);
+    expect(grid.rows!.tracks[0]).toEqual({ size: 100, unit: 'px' });
+    expect([grid.paddingTop, grid.paddingBottom]).toEqual([30, 0]);
+
+    const hidden = parseFigmaNode({ ...node, layoutGrids: node.layoutGrids!.map(g => ({ ...g, visible: false })) }) as IRFrameNode;
+    expect(hidden.grid).toBeUndefined();
+  });
+
   it('returns null for DOCUMENT node', () => {
     const node: FigmaNode = {
       id: '0:0',
@@ -478,6 +601,171 @@ describe('parseFigmaNode', () => {
     expect(ir.textStyle.color).toEqual({ r: 0, g: 0, b: 0, a: 1 });
   });
 
+  it('splits text with character style overrides into runs', () => {
+    const node: FigmaNode = {
+      id: '99:5',
+      name: 'Gain',
+      type: 'TEXT',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 30 },
+      fills: [],
+      strokes: [],
+      effects: [],
+      characters: 'GAIN +6 dB',
+      characterStyleOverrides: [0, 0, 0, 0, 0, 1, 1, 1, 1, 1],
+      styleOverrideTable: {
+        1: { fontWeight: 700, fills: [{ type: 'SOLID', color: { r: 1, g: 0, b: 0, a: 1 } }] },
+      },
+      style: {
+        fontFamily: 'Arial',
+        fontWeight: 400,
+        fontSize: 16,
+        textAlignHorizontal: 'LEFT',
+        textAlignVertical: 'TOP',
+        letterSpacing: { value: 0, unit: 'PIXELS' },
+        lineHeightPx: 24,
+        lineHeightUnit: 'PIXELS',
+        fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 } }],
+      },
+    };
+
+    const ir = parseFigmaNode(node) as IRTextNode;
+    expect(ir.runs).toHaveLength(2);
+    expect(ir.runs![0].characters).toBe('GAIN ');
+    expect(ir.runs![0].style.fontWeight).toBe(400);
+    expect(ir.runs![1].characters).toBe('+6 dB');
+    expect(ir.runs![1].style.fontWeight).toBe(700);
+    expect(ir.runs![1].style.fontSize).toBe(16);
+    expect(ir.runs![1].style.color).toEqual({ r: 1, g: 0, b: 0, a: 1 });
+  });
+
+  it('keeps the transform and unrotated size of rotated nodes', () => {
+    const node: FigmaNode = {
+      id: '99:6',
+      name: 'Tick',
+      type: 'RECTANGLE',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 10, height: 40 },
+      relativeTransform: [[0, 1, 0], [-1, 0, 40]],
+      size: { x: 40, y: 10 },
+      fills: [],
+      strokes: [],
+      effects: [],
+    } as FigmaNode;
+
+    const ir = parseFigmaNode(node)!;
+    expect(ir.transform).toEqual({ m00: 0, m01: 1, m02: 0, m10: -1, m11: 0, m12: 40 });
+    expect(ir.size).toEqual({ x: 40, y: 10 });
+    expect(ir.bounds).toEqual({ x: 0, y: 0, width: 10, height: 40 });
+  });
+
+  it('omits the transform for unrotated nodes', () => {
+    const node: FigmaNode = {
+      id: '99:7',
+      name: 'Box',
+      type: 'RECTANGLE',
+      visible: true,
+      absoluteBoundingBox: { x: 5, y: 5, width: 10, height: 10 },
+      relativeTransform: [[1, 0, 5], [0, 1, 5]],
+      fills: [],
+      strokes: [],
+      effects: [],
+    } as FigmaNode;
+
+    const ir = parseFigmaNode(node)!;
+    expect(ir.transform).toBeUndefined();
+    expect(ir.size).toBeUndefined();
+  });
+
+  it('parses stroke dashes, cap and join', () => {
+    const node = {
+      id: '99:8',
+      name: 'Grid Line',
+      type: 'VECTOR',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 0 },
+      strokes: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 } }],
+      strokeWeight: 1,
+      strokeCap: 'ROUND',
+      strokeJoin: 'BEVEL',
+      strokeDashes: [2, 4],
+    } as FigmaNode;
+
+    const ir = parseFigmaNode(node) as IRVectorNode;
+    expect(ir.strokes[0].dashes).toEqual([2, 4]);
+    expect(ir.strokes[0].cap).toBe('round');
+    expect(ir.strokes[0].join).toBe('bevel');
+  });
+
+  it('drops dash patterns that are all zero or negative', () => {
+    const dashed = (strokeDashes: number[]) => parseFigmaNode({
+      id: '99:8',
+      name: 'Grid Line',
+      type: 'VECTOR',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 0 },
+      strokes: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 } }],
+      strokeWeight: 1,
+      strokeDashes,
+    } as FigmaNode) as IRVectorNode;
+
+    expect(dashed([0, 0]).strokes[0].dashes).toEqual([]);
+    expect(dashed([4, -2]).strokes[0].dashes).toEqual([]);
+    expect(dashed([0, 6]).strokes[0].dashes).toEqual([0, 6]);
+  });
+
+  it('keeps gradient strokes as a paint', () => {
+    const node = {
+      id: '99:9',
+      name: 'Knob Ring',
+      type: 'ELLIPSE',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 40, height: 40 },
+      strokes: [{
+        type: 'GRADIENT_LINEAR',
+        gradientHandlePositions: [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }],
+        gradientStops: [
+          { position: 0, color: { r: 1, g: 1, b: 1, a: 1 } },
+          { position: 1, color: { r: 0, g: 0, b: 0, a: 1 } },
+        ],
+      }],
+      strokeWeight: 3,
+    } as FigmaNode;
+
+    const ir = parseFigmaNode(node) as IREllipseNode;
+    expect(ir.strokes).toHaveLength(1);
+    expect(ir.strokes[0].paint?.type).toBe('linearGradient');
+    expect(ir.strokes[0].color).toEqual({ r: 1, g: 1, b: 1, a: 1 });
+    expect(ir.strokes[0].weight).toBe(3);
+  });
+
+  it('marks mask nodes and the siblings they clip', () => {
+    const shape = (id: string, extra: Partial<FigmaNode> = {}) => ({
+      id,
+      name: `Shape ${id}`,
+      type: 'RECTANGLE',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 20, height: 20 },
+      ...extra,
+    });
+    const node = {
+      id: '99:10',
+      name: 'Meter',
+      type: 'GROUP',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 20, height: 20 },
+      children: [shape('99:11'), shape('99:12', { isMask: true }), shape('99:13'), shape('99:14')],
+    } as FigmaNode;
+
+    const ir = parseFigmaNode(node) as IRGroupNode;
+    const [before, mask, first, second] = ir.children;
+    expect(before.maskedBy).toBeUndefined();
+    expect(mask.isMask).toBe(true);
+    expect(mask.maskedBy).toBeUndefined();
+    expect(first.maskedBy).toBe('99:12');
+    expect(second.maskedBy).toBe('99:12');
+  });
+
   it('handles node with no fills/strokes/effects gracefully', () => {
     const node: FigmaNode = {
       id: '99:4',
@@ -548,6 +836,110 @@ describe('parseFigmaNode', () => {
     }
   });
 
+  it('carries the full handle transform on linear and radial gradients', () => {
+    const stops = [
+      { position: 0, color: { r: 1, g: 0, b: 0, a: 1 } },
+      { position: 1, color: { r: 0, g: 0, b: 1, a: 1 } },
+    ];
+    const node: FigmaNode = {
+      id: '99:7',
+      name: 'Glow',
+      type: 'ELLIPSE',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 100 },
+      fills: [
+        {
+          type: 'GRADIENT_RADIAL',
+          gradientHandlePositions: [{ x: 0.5, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0.5, y: 0.75 }],
+          gradientStops: stops,
+        },
+        {
+          type: 'GRADIENT_LINEAR',
+          gradientHandlePositions: [{ x: 0, y: 0 }, { x: 1, y: 1 }],
+          gradientStops: stops,
+        },
+      ],
+      strokes: [],
+      effects: [],
+    };
+
+    const ir = parseFigmaNode(node) as IREllipseNode;
+    expect((ir.fills[0] as IRRadialGradientFill).transform).toEqual({ m00: 0.5, m01: 0, m02: 0.5, m10: 0, m11: 0.25, m12: 0.5 });
+    expect((ir.fills[1] as IRLinearGradientFill).transform).toBeUndefined();
+  });
+
+  it('keeps the crop transform and tile scaling factor of image fills', () => {
+    const node: FigmaNode = {
+      id: '99:7',
+      name: 'Photo',
+      type: 'RECTANGLE',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 100 },
+      fills: [
+        { type: 'IMAGE', imageRef: 'a', scaleMode: 'CROP', imageTransform: [[0.5, 0, 0.25], [0, 0.5, 0]] },
+        { type: 'IMAGE', imageRef: 'b', scaleMode: 'TILE', scalingFactor: 0.5 },
+        { type: 'IMAGE', imageRef: 'c', scaleMode: 'FILL', scalingFactor: 0.5 },
+      ],
+      strokes: [],
+      effects: [],
+    } as FigmaNode;
+
+    const ir = parseFigmaNode(node) as IRRectangleNode;
+    const [crop, tile, fill] = ir.fills as IRImageFill[];
+    expect(crop.transform).toEqual({ m00: 0.5, m01: 0, m02: 0.25, m10: 0, m11: 0.5, m12: 0 });
+    expect(tile.scalingFactor).toBe(0.5);
+    expect(fill.scalingFactor).toBeUndefined();
+  });
+
+  it('parses angular and diamond gradient fills', () => {
+    const stops = [
+      { position: 0, color: { r: 1, g: 0, b: 0, a: 1 } },
+      { position: 1, color: { r: 0, g: 0, b: 1, a: 1 } },
+    ];
+    const node: FigmaNode = {
+      id: '99:7',
+      name: 'Knob',
+      type: 'ELLIPSE',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 100 },
+      fills: [
+        {
+          type: 'GRADIENT_ANGULAR',
+          gradientHandlePositions: [{ x: 0.5, y: 0.5 }, { x: 0.5, y: 0 }, { x: 1, y: 0.5 }],
+          gradientStops: stops,
+        },
+        {
+          type: 'GRADIENT_DIAMOND',
+          opacity: 0.5,
+          gradientHandlePositions: [{ x: 0.5, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0.5, y: 1 }],
+          gradientStops: stops,
+        },
+      ],
+      strokes: [],
+      effects: [],
+    };
+
+    const ir = parseFigmaNode(node) as IREllipseNode;
+    expect(ir.fills).toEqual([
+      {
+        type: 'angularGradient',
+        center: { x: 0.5, y: 0.5 },
+        start: { x: 0.5, y: 0 },
+        stops,
+        opacity: 1,
+        visible: true,
+      },
+      {
+        type: 'diamondGradient',
+        center: { x: 0.5, y: 0.5 },
+        axes: [{ x: 0.5, y: 0 }, { x: 0, y: 0.5 }],
+        stops,
+        opacity: 0.5,
+        visible: true,
+      },
+    ]);
+  });
+
   it('parses GROUP node with children', () => {
     const node: FigmaNode = {
       id: '99:7',
@@ -638,6 +1030,68 @@ describe('parseFigmaNode', () => {
     expect(ir.paths).toHaveLength(1);
     expect(ir.paths[0].windingRule).toBe('evenodd');
   });
+
+  it('parses COMPONENT_SET node with variant properties', () => {
+    const variant = (id: string, name: string): FigmaNode => ({
+      id,
+      name,
+      type: 'COMPONENT',
+      visible: true,
+      absoluteBoundingBox: { x: 20, y: 20, width: 80, height: 32 },
+      fills: [],
+      strokes: [],
+      effects: [],
+      children: [],
+    });
+
+    const node: FigmaNode = {
+      id: '99:11',
+      name: 'Power Button',
+      type: 'COMPONENT_SET',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 100 },
+      fills: [],
+      strokes: [],
+      effects: [],
+      componentPropertyDefinitions: {
+        State: { type: 'VARIANT', defaultValue: 'Default', variantOptions: ['Default', 'Hover'] },
+        'Label#12:0': { type: 'TEXT', defaultValue: 'Power' },
+      },
+      children: [
+        variant('99:12', 'State=Default, Value=Off'),
+        variant('99:13', 'State=Hover, Value=On'),
+      ],
+    };
+
+    const ir = parseFigmaNode(node) as IRComponentSetNode;
+    expect(ir.type).toBe('componentSet');
+    expect(ir.children).toHaveLength(2);
+    expect(ir.children[0].type).toBe('component');
+    expect(ir.children[1].variantProperties).toEqual({ State: 'Hover', Value: 'On' });
+    expect(ir.children[1].relativeX).toBe(20);
+    // Only VARIANT definitions become variant properties
+    expect(ir.variantProperties).toEqual([
+      { name: 'State', options: ['Default', 'Hover'], defaultValue: 'Default' },
+    ]);
+  });
+
+  it('derives variant properties from names when definitions are missing', () => {
+    const node = {
+      id: '99:14',
+      name: 'Toggle',
+      type: 'COMPONENT_SET',
+      absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 50 },
+      children: [
+        { id: '99:15', name: 'Value=Off', type: 'COMPONENT', children: [] },
+        { id: '99:16', name: 'Value=On', type: 'COMPONENT', children: [] },
+      ],
+    } as unknown as FigmaNode;
+
+    const ir = parseFigmaNode(node) as IRComponentSetNode;
+    expect(ir.variantProperties).toEqual([
+      { name: 'Value', options: ['Off', 'On'], defaultValue: 'Off' },
+    ]);
+  });
 });
 
 // ─── Edge Cases ─────────────────────────────────────────────────────────────
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { parseFigmaFile } from '../../src/figma/parser.js';
+import { generateFromDocument, generateBlendHelper } from '../../src/codegen/generator.js';
+import type { FigmaFileResponse } from '../../src/figma/types.js';
+
+function makeFile(): FigmaFileResponse {
+  return {
+    name: 'BlendTest',
+    lastModified: '2024-01-01T00:00:00Z',
+    version: '1',
+    document: {
+      id: '0:0',
+      type: 'DOCUMENT',
+      name: 'Document',
+      children: [
+        {
+          id: '0:1',
+          type: 'CANVAS',
+          name: 'Page 1',
+          backgroundColor: { r: 1, g: 1, b: 1, a: 1 },
+          children: [
+            {
+              id: '1:1',
+              type: 'FRAME',
+              name: 'Meter',
+              visible: true,
+              absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 100 },
+              fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 } }],
+              strokes: [],
+              effects: [],
+              children: [
+                {
+                  id: '1:2',
+                  type: 'RECTANGLE',
+                  name: 'Bar',
+                  visible: true,
+                  absoluteBoundingBox: { x: 0, y: 40, width: 200, height: 20 },
+                  fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 1, a: 1 } }],
+                },
+                {
+                  id: '1:3',
+                  type: 'ELLIPSE',
+                  name: 'Glow',
+                  visible: true,
+                  blendMode: 'SCREEN',
+                  absoluteBoundingBox: { x: 50, y: 20, width: 60, height: 60 },
+                  fills: [{ type: 'SOLID', color: { r: 1, g: 0, b: 0, a: 1 } }],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  } as unknown as FigmaFileResponse;
+}
+
+describe('Blend modes integration', () => {
+  it('ignores blend modes unless enabled', () => {
+    const ir = parseFigmaFile(makeFile());
+    const [meter] = generateFromDocument(ir);
+
+    expect(meter.implementation.content).not.toContain('FigmaBlend');
+    expect(generateBlendHelper(ir)).toBeNull();
+  });
+
+  it('composites blended nodes offscreen into a cached member image', () => {
+    const [meter] = generateFromDocument(parseFigmaFile(makeFile()), [], { blendModes: true });
+    const cpp = meter.implementation.content;
+
+    expect(meter.header.content).toContain('juce::Image glowBlend; // Glow — SCREEN blend cache');
+    expect(cpp).toContain('#include "Meter.h"\n#include "FigmaBlend.h"');
+    expect(cpp).toContain('if (width > 0 && height > 0 && (glowBlend.getWidth() != width || glowBlend.getHeight() != height))');
+    expect(cpp).toContain('FigmaBlend::apply(glowBlend, backdrop, FigmaBlend::Mode::screen);');
+    expect(cpp).toContain('g.drawImageTransformed(glowBlend, juce::AffineTransform::scale(1.0f / scale));');
+  });
+
+  it('clears the blend caches in resized()', () => {
+    const [meter] = generateFromDocument(parseFigmaFile(makeFile()), [], { blendModes: true });
+    const cpp = meter.implementation.content;
+
+    const resized = cpp.slice(cpp.indexOf('void Meter::resized()'));
+    expect(resized).toContain('    // Blended images are re-composited for the new layout\n    glowBlend = {};');
+  });
+
+  it('renders the offscreen images at the display\'s physical scale', () => {
+    const [meter] = generateFromDocument(parseFigmaFile(makeFile()), [], { blendModes: true });
+    const cpp = meter.implementation.content;
+
+    expect(cpp).toContain('const auto scale = g.getInternalContext().getPhysicalPixelScaleFactor();');
+    expect(cpp).toContain('const auto width = juce::roundToInt((float) getWidth() * scale);');
+    expect(cpp).toContain('juce::Image backdrop(juce::Image::ARGB, width, height, true);');
+    expect(cpp).toContain('glowBlend = juce::Image(juce::Image::ARGB, width, height, true);');
+
+    const layer = cpp.slice(cpp.indexOf('juce::Graphics g(glowBlend);'), cpp.indexOf('FigmaBlend::apply'));
+    expect(layer).toContain('g.addTransform(juce::AffineTransform::scale(scale));');
+  });
+
+  it('paints the background and earlier siblings into the backdrop', () => {
+    const [meter] = generateFromDocument(parseFigmaFile(makeFile()), [], { blendModes: true });
+    const cpp = meter.implementation.content;
+
+    const backdrop = cpp.slice(cpp.indexOf('juce::Graphics g(backdrop);'), cpp.indexOf('glowBlend = juce::Image'));
+    expect(backdrop).toContain('g.fillRect(getLocalBounds().toFloat());');
+    expect(backdrop).toContain('juce::Colour(0xff0000ff)');
+    expect(backdrop).not.toContain('0xffff0000');
+
+    const layer = cpp.slice(cpp.indexOf('juce::Graphics g(glowBlend);'), cpp.indexOf('FigmaBlend::apply'));
+    expect(layer).toContain('g.fillEllipse(glowBounds);');
+  });
+
+  it('emits FigmaBlend.h with every Figma blend formula', () => {
+    const helper = generateBlendHelper(parseFigmaFile(makeFile()), { blendModes: true })!;
+
+    expect(helper.fileName).toBe('FigmaBlend.h');
+    expect(helper.content).toContain('namespace FigmaBlend');
+    expect(helper.content).toContain('inline void apply(juce::Image& layer, const juce::Image& backdrop, Mode mode)');
+    for (const mode of ['screen', 'overlay', 'colourDodge', 'softLight', 'hue', 'luminosity']) {
+      expect(helper.content).toContain(`Mode::${mode}`);
+    }
+  });
+});
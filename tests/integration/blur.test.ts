@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import { parseFigmaFile } from '../../src/figma/parser.js';
+import { generateFromDocument, generateBlurHelper } from '../../src/codegen/generator.js';
+import type { FigmaFileResponse } from '../../src/figma/types.js';
+
+function makeFile(blurred = true): FigmaFileResponse {
+  return {
+    name: 'BlurTest',
+    lastModified: '2024-01-01T00:00:00Z',
+    version: '1',
+    document: {
+      id: '0:0',
+      type: 'DOCUMENT',
+      name: 'Document',
+      children: [
+        {
+          id: '0:1',
+          type: 'CANVAS',
+          name: 'Page 1',
+          backgroundColor: { r: 1, g: 1, b: 1, a: 1 },
+          children: [
+            {
+              id: '1:1',
+              type: 'FRAME',
+              name: 'Meter',
+              visible: true,
+              absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 100 },
+              fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 } }],
+              strokes: [],
+              effects: [],
+              children: [
+                {
+                  id: '1:2',
+                  type: 'RECTANGLE',
+                  name: 'Bar',
+                  visible: true,
+                  effects: blurred ? [{ type: 'BACKGROUND_BLUR', visible: true, radius: 8 }] : [],
+                  absoluteBoundingBox: { x: 0, y: 40, width: 200, height: 20 },
+                  fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 1, a: 1 } }],
+                },
+                {
+                  id: '1:3',
+                  type: 'ELLIPSE',
+                  name: 'Glow',
+                  visible: true,
+                  effects: blurred ? [{ type: 'LAYER_BLUR', visible: true, radius: 12 }] : [],
+                  absoluteBoundingBox: { x: 50, y: 20, width: 60, height: 60 },
+                  fills: [{ type: 'SOLID', color: { r: 1, g: 0, b: 0, a: 1 } }],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  } as unknown as FigmaFileResponse;
+}
+
+// Editor > [Backdrop, Glass (frame with background and layer blur), Channel instance
+// with an overridden, blurred fill]; Channel (component) on the same page
+function makeFrameBlurFile(): FigmaFileResponse {
+  const channel = (id: string, type: string, b: number, extra: object = {}) => ({
+    id,
+    type,
+    name: 'Channel',
+    visible: true,
+    absoluteBoundingBox: { x: 0, y: 200, width: 40, height: 100 },
+    fills: [{ type: 'SOLID', color: { r: 0, g: 0, b, a: 1 } }],
+    strokes: [],
+    effects: [],
+    children: [{
+      id: `${id}-knob`,
+      type: 'ELLIPSE',
+      name: 'Knob',
+      visible: true,
+      effects: [{ type: 'LAYER_BLUR', visible: true, radius: 4 }],
+      absoluteBoundingBox: { x: 10, y: 210, width: 20, height: 20 },
+      fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 } }],
+    }],
+    ...extra,
+  });
+  const file = makeFile(false);
+  const page = file.document.children[0] as unknown as { children: unknown[] };
+  page.children = [
+    channel('2:1', 'COMPONENT', 0.5),
+    {
+      id: '3:1',
+      type: 'FRAME',
+      name: 'Editor',
+      visible: true,
+      absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 300 },
+      fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 } }],
+      strokes: [],
+      effects: [],
+      children: [
+        {
+          id: '3:2',
+          type: 'RECTANGLE',
+          name: 'Backdrop',
+          visible: true,
+          absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 150 },
+          fills: [{ type: 'SOLID', color: { r: 1, g: 0, b: 0, a: 1 } }],
+        },
+        {
+          id: '3:3',
+          type: 'FRAME',
+          name: 'Glass',
+          visible: true,
+          absoluteBoundingBox: { x: 50, y: 50, width: 200, height: 100 },
+          fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 0.2 } }],
+          strokes: [],
+          effects: [
+            { type: 'BACKGROUND_BLUR', visible: true, radius: 16 },
+            { type: 'LAYER_BLUR', visible: true, radius: 2 },
+          ],
+          children: [],
+        },
+        channel('3:4', 'INSTANCE', 1, { componentId: '2:1' }),
+      ],
+    },
+  ];
+  return file;
+}
+
+describe('Blur integration', () => {
+  it('caches blurred images in members cleared by resized()', () => {
+    const [meter] = generateFromDocument(parseFigmaFile(makeFile()));
+    const cpp = meter.implementation.content;
+
+    expect(meter.header.content).toContain('juce::Image barBackdropBlur; // Bar — background blur cache');
+    expect(meter.header.content).toContain('juce::Image glowBlur; // Glow — layer blur cache');
+    expect(cpp).toContain('#include "Meter.h"\n#include "FigmaBlur.h"');
+    expect(cpp).toContain('FigmaBlur::apply(glowBlur, 12.0f * scale);');
+    expect(cpp).toContain('FigmaBlur::apply(barBackdropBlur, 8.0f * scale);');
+
+    const resized = cpp.slice(cpp.indexOf('void Meter::resized()'));
+    expect(resized).toContain('    barBackdropBlur = {};\n    glowBlur = {};');
+  });
+
+  it('emits FigmaBlur.h once when any node is blurred', () => {
+    const helper = generateBlurHelper(parseFigmaFile(makeFile()))!;
+
+    expect(helper.fileName).toBe('FigmaBlur.h');
+    expect(helper.content).toContain('namespace FigmaBlur');
+    expect(helper.content).toContain('inline void apply(juce::Image& image, float radius)');
+    expect(helper.content).toContain('juce::Image::BitmapData data(image, juce::Image::BitmapData::readWrite);');
+    expect(helper.content).not.toContain('getPixelAt');
+  });
+
+  it('emits no blur helper without blurs', () => {
+    const ir = parseFigmaFile(makeFile(false));
+
+    expect(generateBlurHelper(ir)).toBeNull();
+    expect(generateFromDocument(ir)[0].implementation.content).not.toContain('FigmaBlur');
+  });
+
+  it('blurs a component\'s own drawing and draws its blurred backdrop in the parent', () => {
+    const components = generateFromDocument(parseFigmaFile(makeFrameBlurFile()));
+    const glass = components.find(c => c.className === 'Glass')!;
+    const editor = components.find(c => c.className === 'Editor')!;
+
+    expect(glass.header.content).toContain('juce::Image glassBlur; // Glass — layer blur cache');
+    expect(glass.header.content).not.toContain('BackdropBlur');
+    expect(glass.implementation.content).toContain('FigmaBlur::apply(glassBlur, 2.0f * scale);');
+
+    const cpp = editor.implementation.content;
+    expect(editor.header.content).toContain('juce::Image glassBackdropBlur; // Glass — background blur cache');
+    expect(editor.header.content).not.toContain('juce::Image glassBlur;');
+    expect(cpp).toContain('// Glass (child component)');
+    expect(cpp).toContain('clip.addRectangle(glass.getBounds().toFloat());');
+    expect(cpp).toContain('clip.applyTransform(glass.getTransform());');
+    expect(cpp).toContain('FigmaBlur::apply(glassBackdropBlur, 16.0f * scale);');
+    expect(cpp.slice(cpp.indexOf('void Editor::resized()'))).toContain('glassBackdropBlur = {};');
+  });
+
+  it('caches blurs in instance override subclasses', () => {
+    const components = generateFromDocument(parseFigmaFile(makeFrameBlurFile()));
+    const override = components.find(c => c.className === 'ChannelOverride1')!;
+
+    expect(override.header.content).toContain('void resized() override;');
+    expect(override.header.content).toContain('juce::Image knobBlur; // Knob — layer blur cache');
+    expect(override.implementation.content).toContain('if (knobBlur.getWidth() != width || knobBlur.getHeight() != height)');
+    expect(override.implementation.content).toContain('void ChannelOverride1::resized()\n{\n    Channel::resized();\n    // Blurred images are re-rendered at the new size\n    knobBlur = {};\n}');
+  });
+});
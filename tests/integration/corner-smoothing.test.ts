@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { parseFigmaFile } from '../../src/figma/parser.js';
+import { generateFromDocument, generateSquircleHelper } from '../../src/codegen/generator.js';
+import type { FigmaFileResponse } from '../../src/figma/types.js';
+
+function makeFile(cornerSmoothing = 0.6): FigmaFileResponse {
+  return {
+    name: 'SquircleTest',
+    lastModified: '2024-01-01T00:00:00Z',
+    version: '1',
+    document: {
+      id: '0:0',
+      type: 'DOCUMENT',
+      name: 'Document',
+      children: [
+        {
+          id: '0:1',
+          type: 'CANVAS',
+          name: 'Page 1',
+          backgroundColor: { r: 1, g: 1, b: 1, a: 1 },
+          children: [
+            {
+              id: '1:1',
+              type: 'FRAME',
+              name: 'Card',
+              visible: true,
+              absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 100 },
+              fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 } }],
+              strokes: [],
+              effects: [],
+              cornerRadius: 16,
+              cornerSmoothing,
+              clipsContent: true,
+              children: [
+                {
+                  id: '1:2',
+                  type: 'RECTANGLE',
+                  name: 'Badge',
+                  visible: true,
+                  absoluteBoundingBox: { x: 10, y: 10, width: 40, height: 20 },
+                  fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 1, a: 1 } }],
+                  cornerRadius: 6,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  } as unknown as FigmaFileResponse;
+}
+
+describe('Corner smoothing integration', () => {
+  it('draws the frame as a squircle from FigmaSquircle.h', () => {
+    const [card] = generateFromDocument(parseFigmaFile(makeFile()));
+    const cpp = card.implementation.content;
+
+    expect(cpp).toContain('#include "Card.h"\n#include "FigmaSquircle.h"');
+    expect(cpp).toContain('FigmaSquircle::addRoundedRectangle(p, getLocalBounds().toFloat(), 16.0f, 16.0f, 16.0f, 16.0f, 0.6f);');
+    expect(cpp).toContain('g.fillRoundedRectangle(badgeBounds, 6.0f);');
+  });
+
+  it('emits FigmaSquircle.h when any corner is smoothed', () => {
+    const helper = generateSquircleHelper(parseFigmaFile(makeFile()))!;
+
+    expect(helper.fileName).toBe('FigmaSquircle.h');
+    expect(helper.content).toContain('namespace FigmaSquircle');
+    expect(helper.content).toContain('inline void addRoundedRectangle(juce::Path& path, juce::Rectangle<float> bounds,');
+  });
+
+  it('keeps circular corners without smoothing', () => {
+    const ir = parseFigmaFile(makeFile(0));
+
+    expect(generateSquircleHelper(ir)).toBeNull();
+    expect(generateFromDocument(ir)[0].implementation.content).not.toContain('FigmaSquircle');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { parseFigmaFile } from '../../src/figma/parser.js';
+import { generateFromDocument, generateDesignTokens } from '../../src/codegen/generator.js';
+import type { FigmaFileResponse } from '../../src/figma/types.js';
+
+const textStyle = {
+  fontFamily: 'Inter',
+  fontWeight: 700,
+  fontSize: 18,
+  lineHeightPx: 22,
+  textAlignHorizontal: 'LEFT',
+  textAlignVertical: 'TOP',
+};
+
+function makeFile(): FigmaFileResponse {
+  return {
+    name: 'TokensTest',
+    lastModified: '2024-01-01T00:00:00Z',
+    version: '1',
+    styles: {
+      'S:accent': { key: 'a', name: 'Brand/Accent', styleType: 'FILL', description: '' },
+      'S:heading': { key: 'h', name: 'Heading', styleType: 'TEXT', description: '' },
+    },
+    document: {
+      id: '0:0',
+      type: 'DOCUMENT',
+      name: 'Document',
+      children: [
+        {
+          id: '0:1',
+          type: 'CANVAS',
+          name: 'Page 1',
+          backgroundColor: { r: 1, g: 1, b: 1, a: 1 },
+          children: [
+            {
+              id: '1:1',
+              type: 'FRAME',
+              name: 'Panel',
+              visible: true,
+              absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 300 },
+              fills: [],
+              strokes: [],
+              effects: [],
+              children: [
+                {
+                  id: '1:2',
+                  type: 'RECTANGLE',
+                  name: 'Accent Bar',
+                  visible: true,
+                  absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 4 },
+                  fills: [{ type: 'SOLID', color: { r: 1, g: 0, b: 0, a: 1 }, opacity: 0.5 }],
+                  styles: { fill: 'S:accent' },
+                },
+                {
+                  id: '1:3',
+                  type: 'TEXT',
+                  name: 'Title',
+                  visible: true,
+                  absoluteBoundingBox: { x: 10, y: 10, width: 200, height: 22 },
+                  fills: [{ type: 'SOLID', color: { r: 1, g: 0, b: 0, a: 1 } }],
+                  styles: { fill: 'S:accent', text: 'S:heading' },
+                  characters: 'Hello',
+                  style: textStyle,
+                  textAutoResize: 'WIDTH_AND_HEIGHT',
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  } as unknown as FigmaFileResponse;
+}
+
+describe('Design tokens integration', () => {
+  it('collects one token per referenced style', () => {
+    const ir = parseFigmaFile(makeFile());
+
+    expect(ir.tokens!.colours).toEqual([
+      { name: 'brandAccent', styleName: 'Brand/Accent', color: { r: 1, g: 0, b: 0, a: 1 } },
+    ]);
+    expect(ir.tokens!.fonts.map(f => f.name)).toEqual(['heading']);
+  });
+
+  it('emits DesignTokens.h with colour constants and font factories', () => {
+    const tokens = generateDesignTokens(parseFigmaFile(makeFile()))!;
+
+    expect(tokens.fileName).toBe('DesignTokens.h');
+    expect(tokens.content).toContain('namespace Colours');
+    expect(tokens.content).toContain('const juce::Colour brandAccent{0xffff0000}; // Brand/Accent');
+    expect(tokens.content).toContain(
+      'inline juce::Font heading() { return juce::Font(juce::FontOptions(18.0f)).boldened(); } // Heading',
+    );
+  });
+
+  it('references tokens from generated components', () => {
+    const [panel] = generateFromDocument(parseFigmaFile(makeFile()));
+    const cpp = panel.implementation.content;
+
+    expect(cpp).toContain('#include "Panel.h"\n#include "DesignTokens.h"');
+    expect(cpp).toContain('g.setColour(Colours::brandAccent.withAlpha(0.5f));');
+    expect(cpp).toContain('g.setFont(Fonts::heading());');
+    expect(cpp).toContain('g.setColour(Colours::brandAccent);');
+    expect(cpp).not.toContain('0xffff0000');
+  });
+
+  it('keeps the node\'s tokens in mixed-style text runs that don\'t override them', () => {
+    const file = makeFile();
+    const title = (file.document.children[0] as unknown as { children: { children: Record<string, unknown>[] }[] })
+      .children[0].children[1];
+    Object.assign(title, {
+      characters: 'Hello World',
+      characterStyleOverrides: [0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 1],
+      styleOverrideTable: { 1: { fontWeight: 400 } },
+    });
+    const cpp = generateFromDocument(parseFigmaFile(file))[0].implementation.content;
+
+    expect(cpp).toContain('text.append("Hello ", Fonts::heading(), Colours::brandAccent);');
+    expect(cpp).toContain('text.append("World", juce::Font(juce::FontOptions(18.0f)), Colours::brandAccent);');
+  });
+
+  it('emits no tokens header when no styles are used', () => {
+    const file = makeFile();
+    file.styles = {};
+    const ir = parseFigmaFile(file);
+
+    expect(generateDesignTokens(ir)).toBeNull();
+    expect(generateFromDocument(ir)[0].implementation.content).not.toContain('DesignTokens.h');
+  });
+});